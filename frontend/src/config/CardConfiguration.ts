@@ -0,0 +1,391 @@
+import { ArtworkPlacement, DEFAULT_ARTWORK_PLACEMENT } from '../engine/ArtworkPlacement.js';
+import { CornerSpecs, Cutout, outlineFromSVGPath, validateCorners, validateCutout } from '../engine/CardOutline.js';
+import { EdgeFinish, PlyStockName } from '../engine/EdgeFinish.js';
+import { FoilMaskChannel, FoilPresetName, HolographicPattern, getFoilChannel, getFoilPreset, getHolographicFoil, validateFoilChannels } from '../engine/FoilPresets.js';
+import { LayerKind } from '../engine/LayerStack.js';
+import { LetterpressParams, getLetterpress } from '../engine/Letterpress.js';
+import { LaminationName, PaperStockName, getLamination, getPaperStock } from '../engine/PaperStocks.js';
+import { SubstrateName, getSubstrate } from '../engine/Substrates.js';
+import { ptToMm } from '../engine/Units.js';
+
+/**
+ * Printed faces of a card (the edge is configured through CardConfigurationState.edge)
+ */
+export type PrintedFace = 'front' | 'back';
+
+/**
+ * Standard card sizes (products in the catalogue define the sizes they offer)
+ */
+export type SizePresetName = 'traditional' | 'slim' | 'square';
+
+export const SIZE_PRESETS: Record<SizePresetName, { width: number; height: number }> = {
+  traditional: { width: 88.9, height: 50.8 }, // 3.5" x 2"
+  slim: { width: 88.9, height: 38.1 }, // 3.5" x 1.5"
+  square: { width: 63.5, height: 63.5 } // 2.5" x 2.5"
+};
+
+/**
+ * On/off and strength of the layers of one kind on a face
+ */
+export interface LayerSettings {
+  enabled: boolean;
+  intensity: number;
+}
+
+/**
+ * Foil of the single-foil layer on a face
+ * tint applies to 'custom' foils, pattern and patternScale to 'holographic'
+ */
+export interface FoilSettings {
+  preset: FoilPresetName;
+  tint: string | null;
+  pattern: HolographicPattern;
+  patternScale: number;
+}
+
+/**
+ * One foil of a multi-channel foil mask (see getFoilChannel)
+ * source: mask channel, or the key colour of an indexed mask as a CSS colour
+ */
+export interface FoilChannelSettings {
+  source: FoilMaskChannel | string;
+  preset: FoilPresetName;
+  tint?: string;
+}
+
+/**
+ * Several foils from one mask image
+ */
+export interface MultiFoilSettings {
+  mask: string;
+  channels: FoilChannelSettings[];
+}
+
+/**
+ * Everything printed on one face
+ * artwork and masks are image paths (null / absent: the face's default artwork and masks),
+ * masks are keyed by layer id, layers by kind
+ */
+export interface FaceSettings {
+  artwork: string | null;
+  placement: ArtworkPlacement;
+  layers: Partial<Record<LayerKind, LayerSettings>>;
+  masks: Record<string, string>;
+  foil: FoilSettings;
+  foilChannels: MultiFoilSettings | null;
+}
+
+/**
+ * Edge finish as chosen in the Color step: the paint colour and edge foil are kept while
+ * another mode is selected, so switching back restores them
+ */
+export interface EdgeSettings {
+  mode: EdgeFinish['mode'];
+  paintColor: string;
+  foil: FoilPresetName;
+}
+
+/**
+ * Complete card configuration
+ * Plain data (no textures or DOM state), so it can be copied, compared and stored.
+ * All lengths are real-scale mm; thickness is the stock caliper.
+ */
+export interface CardConfigurationState {
+  product: string; // Catalogue product id
+  sizePreset: string; // Size id of the product, or 'custom'
+  width: number;
+  height: number;
+  cornerRadius: number;
+  corners: CornerSpecs | null; // Per-corner override (null: four round corners of cornerRadius)
+  dieCut: string | null; // SVG path data of a custom outline
+  cutouts: Cutout[];
+  thickness: number;
+  substrate: SubstrateName;
+  paperStock: PaperStockName;
+  plyStock: PlyStockName;
+  plyColors: string[] | null; // Front to back (null: outer plies in the stock colour)
+  lamination: LaminationName;
+  edge: EdgeSettings;
+  faces: Record<PrintedFace, FaceSettings>;
+  letterpress: LetterpressParams & { inkColor: string };
+  spotUV: { gloss: number; thickness: number };
+  emboss: { depth: number; direction: 'emboss' | 'deboss'; displacement: boolean; gridCellSize: number };
+}
+
+export type ConfigurationKey = keyof CardConfigurationState;
+
+/**
+ * A change notification: the new and previous state, and the top-level keys that changed
+ */
+export interface ConfigurationChange {
+  state: Readonly<CardConfigurationState>;
+  previous: Readonly<CardConfigurationState>;
+  keys: ReadonlySet<ConfigurationKey>;
+}
+
+export type ConfigurationListener = (change: ConfigurationChange) => void;
+
+const DEFAULT_FOIL: FoilSettings = { preset: 'gold', tint: null, pattern: 'rainbow', patternScale: 1 };
+
+export const DEFAULT_PRODUCT = 'businessCard';
+
+/**
+ * Default configuration: traditional 16pt silk business card, matte laminated, no print layers on
+ * (a catalogue product's defaults are applied on top, see productConfiguration)
+ */
+export function defaultConfiguration(): CardConfigurationState {
+  const face = (layers: LayerKind[]): FaceSettings => ({
+    artwork: null,
+    placement: { ...DEFAULT_ARTWORK_PLACEMENT },
+    layers: Object.fromEntries(layers.map(kind => [kind, { enabled: false, intensity: 1 }])),
+    masks: {},
+    foil: { ...DEFAULT_FOIL },
+    foilChannels: null
+  });
+
+  return {
+    product: DEFAULT_PRODUCT,
+    sizePreset: 'traditional',
+    ...SIZE_PRESETS.traditional,
+    cornerRadius: 5,
+    corners: null,
+    dieCut: null,
+    cutouts: [],
+    thickness: ptToMm(16),
+    substrate: 'paper',
+    paperStock: 'silk',
+    plyStock: 'single',
+    plyColors: null,
+    lamination: 'matte',
+    edge: { mode: 'stock', paintColor: '#8B4513', foil: 'gold' },
+    faces: {
+      front: face(['foil', 'spotUV', 'emboss', 'letterpress']),
+      back: face(['foil', 'spotUV'])
+    },
+    letterpress: { ...getLetterpress(), inkColor: '#1c2233' },
+    spotUV: { gloss: 0.85, thickness: 0.05 },
+    emboss: { depth: 0.3, direction: 'emboss', displacement: false, gridCellSize: 0.5 }
+  };
+}
+
+/**
+ * Throw if a configuration is not something the engine can build
+ * (whether the product offers it is checked by conformToProduct)
+ */
+export function validateConfiguration(state: CardConfigurationState): void {
+  if (typeof state.product !== 'string' || typeof state.sizePreset !== 'string') {
+    throw new Error('Card product and size preset must be names');
+  }
+  if (!(state.width > 0) || !(state.height > 0) || !(state.thickness > 0) || !(state.cornerRadius >= 0)) {
+    throw new Error('Card width, height and thickness must be positive and the corner radius non-negative (mm)');
+  }
+  if (state.corners !== null) {
+    if (!isRecord(state.corners)) {
+      throw new Error('Corners must be null or per-corner specs');
+    }
+    validateCorners(state.corners);
+  }
+  validateDieCut(state.dieCut);
+  if (!Array.isArray(state.cutouts)) {
+    throw new Error('Cutouts must be a list');
+  }
+  state.cutouts.forEach(validateCutout);
+  if (state.plyColors !== null && !(Array.isArray(state.plyColors) && state.plyColors.every(color => typeof color === 'string'))) {
+    throw new Error('Ply colours must be null or a list of colours');
+  }
+
+  // The catalogue getters throw on unknown names
+  getSubstrate(state.substrate);
+  getPaperStock(state.paperStock);
+  getLamination(state.lamination);
+  getLetterpress(state.letterpress);
+  if (!['stock', 'painted', 'foil'].includes(state.edge.mode)) {
+    throw new Error(`Unknown edge finish: ${state.edge.mode}`);
+  }
+  getFoilPreset(state.edge.foil);
+  if (!['emboss', 'deboss'].includes(state.emboss.direction)) {
+    throw new Error(`Emboss direction must be emboss or deboss: ${state.emboss.direction}`);
+  }
+  if (!(state.emboss.gridCellSize > 0)) {
+    throw new Error(`Emboss grid cell size must be positive (mm): ${state.emboss.gridCellSize}`);
+  }
+
+  for (const [face, settings] of Object.entries(state.faces)) {
+    if (settings.artwork !== null && typeof settings.artwork !== 'string') {
+      throw new Error(`Artwork must be null or an image path (${face})`);
+    }
+    if (!isRecord(settings.masks) || !Object.values(settings.masks).every(path => typeof path === 'string')) {
+      throw new Error(`Masks must map layer ids to image paths (${face})`);
+    }
+    if (settings.foil.tint !== null && typeof settings.foil.tint !== 'string') {
+      throw new Error(`Foil tint must be null or a colour (${face})`);
+    }
+    getFoilPreset(settings.foil.preset);
+    getHolographicFoil(settings.foil.pattern, settings.foil.patternScale);
+    if (!['contain', 'cover', 'stretch'].includes(settings.placement.fit)) {
+      throw new Error(`Unknown artwork fit (${face}): ${settings.placement.fit}`);
+    }
+    for (const [kind, layer] of Object.entries(settings.layers)) {
+      if (!(layer.intensity >= 0 && layer.intensity <= 1)) {
+        throw new Error(`Layer intensity must be 0..1 (${face} ${kind}): ${layer.intensity}`);
+      }
+    }
+    if (settings.foilChannels !== null) {
+      if (!isRecord(settings.foilChannels) || typeof settings.foilChannels.mask !== 'string' || !Array.isArray(settings.foilChannels.channels)) {
+        throw new Error(`Foil channels must be null or a mask path and a list of channels (${face})`);
+      }
+      validateFoilChannels(settings.foilChannels.channels.map(channel => getFoilChannel(channel.source, channel.preset, channel.tint)));
+    }
+  }
+}
+
+/**
+ * Copy one top-level entry of a state into another (partial) state
+ */
+export function copyEntry<K extends ConfigurationKey>(target: Partial<CardConfigurationState>, source: Readonly<CardConfigurationState>, key: K): void {
+  target[key] = source[key];
+}
+
+// Last die-cut path that parsed, so a drag does not re-parse the SVG on every update
+let checkedDieCut: string | null = null;
+
+/**
+ * Throw unless a die cut is null or SVG path data of a closed outline
+ */
+function validateDieCut(dieCut: string | null): void {
+  if (dieCut === null || dieCut === checkedDieCut) {
+    return;
+  }
+  if (typeof dieCut !== 'string') {
+    throw new Error('Die cut must be null or SVG path data');
+  }
+  outlineFromSVGPath(dieCut, 1);
+  checkedDieCut = dieCut;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Card Configuration
+ * The single source of truth for what the customer has configured. The engine, the price and
+ * the configurator UI all read it and write to it; nothing else holds configuration state.
+ * States are immutable: an update replaces the objects whose content changed and keeps the rest,
+ * so a listener can compare any part of the state with the previous one by reference.
+ */
+export class CardConfiguration {
+  private current: CardConfigurationState;
+  private listeners: Set<ConfigurationListener> = new Set();
+
+  constructor(initial: Partial<CardConfigurationState> = {}) {
+    this.current = { ...defaultConfiguration(), ...CardConfiguration.copy(initial) };
+    validateConfiguration(this.current);
+  }
+
+  get state(): Readonly<CardConfigurationState> {
+    return this.current;
+  }
+
+  /**
+   * Independent copy of the current state
+   */
+  snapshot(): CardConfigurationState {
+    return CardConfiguration.copy(this.current);
+  }
+
+  /**
+   * Change some top-level entries and notify subscribers of what actually changed
+   * Invalid results throw and leave the configuration untouched. If a subscriber cannot apply
+   * the change (e.g. the engine rejects it), the configuration rolls back, the subscribers that
+   * had already been notified are told of the rollback, and the error is rethrown; subscribe
+   * whatever applies the configuration (the binding) first, so later ones never see the change.
+   */
+  update(patch: Partial<CardConfigurationState>): void {
+    const next = CardConfiguration.share({ ...this.current, ...CardConfiguration.copy(patch) }, this.current);
+    validateConfiguration(next);
+
+    const keys = new Set((Object.keys(patch) as ConfigurationKey[]).filter(key => next[key] !== this.current[key]));
+    if (keys.size === 0) {
+      return;
+    }
+
+    const previous = this.current;
+    const listeners = [...this.listeners];
+    this.current = next;
+    for (let i = 0; i < listeners.length; i++) {
+      try {
+        listeners[i]({ state: next, previous, keys });
+      } catch (error) {
+        this.current = previous;
+        for (const notified of listeners.slice(0, i + 1)) {
+          try {
+            notified({ state: previous, previous: next, keys });
+          } catch (rollbackError) {
+            console.error('Configuration rollback not applied:', rollbackError);
+          }
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Replace the whole configuration (e.g. when restoring a saved one)
+   */
+  replace(state: CardConfigurationState): void {
+    this.update(state);
+  }
+
+  /**
+   * Change the settings of one printed face
+   */
+  updateFace(face: PrintedFace, patch: Partial<FaceSettings>): void {
+    this.update({ faces: { ...this.current.faces, [face]: { ...this.current.faces[face], ...patch } } });
+  }
+
+  /**
+   * Change the layers of one kind on a face
+   */
+  updateLayer(face: PrintedFace, kind: LayerKind, patch: Partial<LayerSettings>): void {
+    const layers = this.current.faces[face].layers;
+    const layer = { ...(layers[kind] ?? { enabled: false, intensity: 1 }), ...patch };
+    this.updateFace(face, { layers: { ...layers, [kind]: layer } });
+  }
+
+  /**
+   * Listen for changes; returns a function that stops listening
+   */
+  subscribe(listener: ConfigurationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static copy<T>(value: T): T {
+    return structuredClone(value);
+  }
+
+  /**
+   * Keep the current object wherever the next state has equal content, so listeners can
+   * tell what changed by comparing references at any depth
+   */
+  private static share<T>(next: T, current: T): T {
+    if (JSON.stringify(next) === JSON.stringify(current)) {
+      return current;
+    }
+    if (Array.isArray(next) && Array.isArray(current)) {
+      return next.map((value: unknown, i) => CardConfiguration.share(value, current[i] as unknown)) as T;
+    }
+    if (!isRecord(next) || !isRecord(current)) {
+      return next;
+    }
+
+    const shared: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(next)) {
+      shared[key] = CardConfiguration.share(value, current[key]);
+    }
+    return shared as T;
+  }
+}
@@ -0,0 +1,338 @@
+import * as THREE from 'three';
+import {
+  CardConfiguration,
+  CardConfigurationState,
+  ConfigurationChange,
+  ConfigurationKey,
+  FaceSettings,
+  FoilSettings,
+  PrintedFace
+} from './CardConfiguration.js';
+import { CardGeometry } from '../engine/CardGeometry.js';
+import { outlineFromSVGPath } from '../engine/CardOutline.js';
+import { EdgeFinish, getPlyStock } from '../engine/EdgeFinish.js';
+import { FoilPreset, getFoilChannel, getFoilPreset, getHolographicFoil } from '../engine/FoilPresets.js';
+import { LayerKind } from '../engine/LayerStack.js';
+import { getLetterpress } from '../engine/Letterpress.js';
+import { CardMaterialSet, MaterialPipeline } from '../engine/MaterialPipeline.js';
+import { getLamination, getPaperStock } from '../engine/PaperStocks.js';
+import { getSubstrate } from '../engine/Substrates.js';
+import { ResourceManager, TextureRole } from '../resources/ResourceManager.js';
+
+/**
+ * Textures used where the configuration names no image (artwork null, mask not overridden)
+ */
+export interface DefaultTextures {
+  artwork: Record<PrintedFace, THREE.Texture>;
+  masks: Record<PrintedFace, Record<string, THREE.Texture>>;
+}
+
+/**
+ * The engine objects a configuration drives
+ */
+export interface ConfigurationTarget {
+  geometry: CardGeometry;
+  mesh: THREE.Mesh;
+  materials: CardMaterialSet;
+}
+
+const GEOMETRY_KEYS: ConfigurationKey[] = ['width', 'height', 'cornerRadius', 'corners', 'dieCut', 'thickness'];
+const STOCK_KEYS: ConfigurationKey[] = ['substrate', 'paperStock', 'plyStock', 'plyColors'];
+
+// Layer id of the multi-channel foil layer added to a face on demand
+const FOIL_CHANNELS_LAYER = 'foilChannels';
+
+/**
+ * Resolve the foil of a face's single-foil layer
+ */
+function resolveFoil(settings: FoilSettings): FoilPreset {
+  return settings.preset === 'holographic'
+    ? getHolographicFoil(settings.pattern, settings.patternScale)
+    : getFoilPreset(settings.preset, settings.tint ?? undefined);
+}
+
+/**
+ * Configuration Binding
+ * Keeps the card geometry and materials in step with a CardConfiguration: applies the whole
+ * configuration once, then only what each change touches. Images named by the configuration
+ * are loaded on demand; a load that finishes after a newer request is dropped.
+ */
+export class ConfigurationBinding {
+  private config: CardConfiguration;
+  private target: ConfigurationTarget;
+  private defaults: DefaultTextures;
+  private geometryListeners: Set<() => void> = new Set();
+  private requestedTextures: Map<string, string | null> = new Map(); // `${face}:${slot}` -> latest path
+  private unsubscribe: () => void;
+
+  constructor(config: CardConfiguration, target: ConfigurationTarget, defaults: DefaultTextures) {
+    this.config = config;
+    this.target = target;
+    this.defaults = defaults;
+
+    this.applyAll(config.state);
+    this.unsubscribe = config.subscribe(change => this.apply(change));
+  }
+
+  /**
+   * Call back whenever the card mesh is rebuilt (e.g. to refit overlays to it)
+   */
+  onGeometryChange(listener: () => void): () => void {
+    this.geometryListeners.add(listener);
+    return () => {
+      this.geometryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Show the current card geometry after a change made outside the configuration
+   * (e.g. the visual thickness exaggeration)
+   */
+  refreshGeometry(): void {
+    this.target.mesh.geometry = this.target.geometry.geometry;
+    this.geometryListeners.forEach(listener => listener());
+  }
+
+  dispose(): void {
+    this.unsubscribe();
+    this.geometryListeners.clear();
+    this.requestedTextures.clear();
+  }
+
+  /**
+   * Apply a complete configuration (initial state)
+   */
+  private applyAll(state: CardConfigurationState): void {
+    this.applyGeometry(state, null);
+    this.applyStock(state);
+    this.applyFinishes(state);
+    for (const face of ['front', 'back'] as PrintedFace[]) {
+      this.applyFace(face, state.faces[face], null);
+    }
+  }
+
+  /**
+   * Apply the parts of the configuration a change touched
+   */
+  private apply({ state, previous, keys }: ConfigurationChange): void {
+    const touched = (list: ConfigurationKey[]) => list.some(key => keys.has(key));
+    const tessellationChanged =
+      state.emboss.displacement !== previous.emboss.displacement || state.emboss.gridCellSize !== previous.emboss.gridCellSize;
+
+    if (touched([...GEOMETRY_KEYS, 'cutouts']) || tessellationChanged) {
+      this.applyGeometry(state, previous);
+    }
+    if (touched(STOCK_KEYS)) {
+      this.applyStock(state);
+    }
+    if (touched(['lamination', 'edge', 'letterpress', 'spotUV', 'emboss'])) {
+      this.applyFinishes(state);
+    }
+    if (keys.has('faces')) {
+      for (const face of ['front', 'back'] as PrintedFace[]) {
+        if (state.faces[face] !== previous.faces[face]) {
+          this.applyFace(face, state.faces[face], previous.faces[face]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Rebuild the card mesh and refit what depends on its size
+   * Each CardGeometry setter rebuilds the mesh, so only the changed ones are called
+   */
+  private applyGeometry(state: CardConfigurationState, previous: CardConfigurationState | null): void {
+    const { geometry, materials } = this.target;
+
+    if (previous ? state.dieCut !== previous.dieCut : state.dieCut !== null) {
+      geometry.setOutline(state.dieCut ? outlineFromSVGPath(state.dieCut, state.width) : null);
+    }
+    if (previous ? state.cutouts !== previous.cutouts : state.cutouts.length > 0) {
+      geometry.setCutouts(state.cutouts);
+    }
+    if (!previous || state.emboss.displacement !== previous.emboss.displacement || state.emboss.gridCellSize !== previous.emboss.gridCellSize) {
+      geometry.setTessellation(state.emboss.displacement ? 'grid' : 'outline', state.emboss.gridCellSize);
+    }
+    geometry.updateDimensions(state.width, state.height, state.thickness, state.corners ?? state.cornerRadius);
+
+    for (const face of ['front', 'back'] as PrintedFace[]) {
+      // Thicker stock takes a deeper letterpress impression
+      MaterialPipeline.setStockThickness(materials[face], state.thickness);
+      MaterialPipeline.setDisplacementEnabled(materials[face], state.emboss.displacement);
+      // Re-fit the artwork to the new aspect ratio
+      MaterialPipeline.setArtworkPlacement(materials[face], state.faces[face].placement, state.width, state.height);
+    }
+
+    this.refreshGeometry();
+  }
+
+  /**
+   * Substrate, paper stock and the plies shown on the edge
+   */
+  private applyStock(state: CardConfigurationState): void {
+    const { materials } = this.target;
+    const substrate = getSubstrate(state.substrate);
+
+    this.forEachPrintedMaterial(material => MaterialPipeline.setSubstrate(material, substrate));
+    MaterialPipeline.setEdgeSubstrate(materials.edge, substrate);
+    if (state.substrate !== 'paper') {
+      return; // Plastic and metal sheets are a single ply, without paper texture
+    }
+
+    const stock = getPaperStock(state.paperStock);
+    this.forEachPrintedMaterial(material => MaterialPipeline.setPaperStock(material, stock));
+
+    // Without explicit colours, the outer plies take the paper stock's colour
+    MaterialPipeline.setEdgePlies(materials.edge, getPlyStock(state.plyStock, state.plyColors ?? [stock.color, undefined, stock.color]));
+  }
+
+  /**
+   * Lamination, edge finish and the shared letterpress, spot UV and emboss settings
+   */
+  private applyFinishes(state: CardConfigurationState): void {
+    const { materials } = this.target;
+    const lamination = getLamination(state.lamination);
+
+    let edge: EdgeFinish;
+    if (state.edge.mode === 'painted') {
+      edge = { mode: 'painted', color: new THREE.Color(state.edge.paintColor) };
+    } else if (state.edge.mode === 'foil') {
+      edge = { mode: 'foil', foil: getFoilPreset(state.edge.foil) };
+    } else {
+      edge = { mode: 'stock' };
+    }
+    MaterialPipeline.setEdgeFinish(materials.edge, edge);
+
+    this.forEachPrintedMaterial(material => {
+      MaterialPipeline.setLamination(material, lamination);
+      MaterialPipeline.setSpotUVFinish(material, state.spotUV);
+      MaterialPipeline.setEmbossDepth(material, state.emboss.depth, state.emboss.direction);
+    });
+
+    const { inkColor, ...letterpress } = state.letterpress;
+    if (MaterialPipeline.getLayerStack(materials.front).get('letterpress')) {
+      MaterialPipeline.setLayerParams(materials.front, 'letterpress', {
+        letterpress: getLetterpress(letterpress),
+        color: new THREE.Color(inkColor)
+      });
+    }
+  }
+
+  /**
+   * Apply what changed on one printed face (everything when previous is null)
+   */
+  private applyFace(face: PrintedFace, settings: FaceSettings, previous: FaceSettings | null): void {
+    const material = this.target.materials[face];
+    const { width, height } = this.config.state;
+
+    if (settings.placement !== previous?.placement) {
+      MaterialPipeline.setArtworkPlacement(material, settings.placement, width, height);
+    }
+
+    if (settings.layers !== previous?.layers) {
+      for (const [kind, layer] of Object.entries(settings.layers) as [LayerKind, FaceSettings['layers'][LayerKind]][]) {
+        // Uniforms only: toggling never recompiles the shader
+        MaterialPipeline.setLayerEnabled(material, kind, layer!.enabled);
+        MaterialPipeline.setLayerIntensity(material, kind, layer!.intensity);
+      }
+    }
+
+    if (settings.foil !== previous?.foil && MaterialPipeline.getLayerStack(material).get('foil')) {
+      MaterialPipeline.setLayerParams(material, 'foil', resolveFoil(settings.foil));
+    }
+
+    if (settings.artwork !== previous?.artwork) {
+      this.loadFaceTexture(face, 'artwork', settings.artwork, 'color', texture => {
+        MaterialPipeline.updateLayerTextures(material, { artwork: texture });
+      });
+    }
+
+    if (settings.masks !== previous?.masks) {
+      const layers = MaterialPipeline.getLayerStack(material);
+      const ids = new Set([...Object.keys(settings.masks), ...Object.keys(previous?.masks ?? {})]);
+      for (const id of ids) {
+        if (settings.masks[id] === previous?.masks[id] || id === FOIL_CHANNELS_LAYER) {
+          continue;
+        }
+        // Emboss and deboss masks are relief, read texel by texel
+        const kind = layers.get(id)?.kind;
+        const role: TextureRole = kind === 'emboss' || kind === 'deboss' ? 'height' : 'mask';
+        this.loadFaceTexture(face, `mask:${id}`, settings.masks[id] ?? null, role, texture => {
+          MaterialPipeline.updateLayerTextures(material, { masks: { [id]: texture } });
+        });
+      }
+    }
+
+    if (settings.foilChannels !== previous?.foilChannels) {
+      this.applyFoilChannels(face, settings.foilChannels);
+    }
+  }
+
+  /**
+   * Put several foils on a face from one multi-channel mask (replacing any previous one),
+   * or remove them
+   */
+  private applyFoilChannels(face: PrintedFace, settings: FaceSettings['foilChannels']): void {
+    const material = this.target.materials[face];
+
+    if (!settings) {
+      this.requestedTextures.set(`${face}:${FOIL_CHANNELS_LAYER}`, null);
+      const layers = MaterialPipeline.getLayerStack(material);
+      if (layers.remove(FOIL_CHANNELS_LAYER)) {
+        MaterialPipeline.setLayerStack(material, layers);
+      }
+      return;
+    }
+
+    const channels = settings.channels.map(channel => getFoilChannel(channel.source, channel.preset, channel.tint));
+    this.loadFaceTexture(face, FOIL_CHANNELS_LAYER, settings.mask, 'mask', mask => {
+      const layers = MaterialPipeline.getLayerStack(material);
+      if (layers.get(FOIL_CHANNELS_LAYER)) {
+        MaterialPipeline.setLayerParams(material, FOIL_CHANNELS_LAYER, { foilChannels: channels });
+        MaterialPipeline.updateLayerTextures(material, { masks: { [FOIL_CHANNELS_LAYER]: mask } });
+      } else {
+        layers.add({ id: FOIL_CHANNELS_LAYER, kind: 'multiFoil', mask, params: { foilChannels: channels } });
+        // Rebuilds the shader only when a layer was added or removed
+        MaterialPipeline.setLayerStack(material, layers);
+      }
+    });
+  }
+
+  /**
+   * Load an image for one texture slot of a face, or fall back to the slot's default texture
+   * Only the latest request per slot is applied.
+   */
+  private loadFaceTexture(
+    face: PrintedFace,
+    slot: string,
+    path: string | null,
+    role: TextureRole,
+    apply: (texture: THREE.Texture) => void
+  ): void {
+    const key = `${face}:${slot}`;
+    this.requestedTextures.set(key, path);
+
+    if (path === null) {
+      const fallback = slot === 'artwork' ? this.defaults.artwork[face] : this.defaults.masks[face][slot.replace(/^mask:/, '')];
+      if (fallback) {
+        apply(fallback);
+      }
+      return;
+    }
+
+    ResourceManager.loadTexture(path, role)
+      .then(texture => {
+        if (this.requestedTextures.get(key) === path) {
+          apply(texture);
+        }
+      })
+      .catch(() => {
+        console.warn(`Could not load ${path} (${face} ${slot}), keeping the current texture`);
+      });
+  }
+
+  private forEachPrintedMaterial(callback: (material: THREE.ShaderMaterial) => void): void {
+    callback(this.target.materials.front);
+    callback(this.target.materials.back);
+  }
+}
@@ -0,0 +1,299 @@
+import { CardConfiguration, CardConfigurationState, ConfigurationChange, copyEntry } from './CardConfiguration.js';
+
+/**
+ * One undoable step: the top-level entries it changed, before and after
+ * Values are shared with the (immutable) configuration states, not copied.
+ */
+export interface ConfigurationCommand {
+  label: string;
+  before: Partial<CardConfigurationState>;
+  after: Partial<CardConfigurationState>;
+  coalesceKey: string | null; // Steps with the same key merge while a continuous edit lasts
+  size: number; // Estimated memory held by the step (bytes)
+}
+
+/**
+ * limit: most steps kept; maxBytes: estimated memory the steps may hold;
+ * coalesceWindow: pause (ms) after which a continuous edit starts a new step
+ */
+export interface HistoryOptions {
+  limit: number;
+  maxBytes: number;
+  coalesceWindow: number;
+}
+
+export const DEFAULT_HISTORY_OPTIONS: HistoryOptions = {
+  limit: 100,
+  maxBytes: 4 * 1024 * 1024,
+  coalesceWindow: 1000
+};
+
+export type HistoryListener = (history: ConfigurationHistory) => void;
+
+/**
+ * A continuous edit in progress: everything it changed so far, and its step on the undo stack
+ * (null while the edit is back where it started)
+ */
+interface ContinuousEdit {
+  key: string;
+  before: Partial<CardConfigurationState>;
+  after: Partial<CardConfigurationState>;
+  command: ConfigurationCommand | null;
+}
+
+/**
+ * Configuration History
+ * Undo/redo for a CardConfiguration. Every change becomes a command holding the entries it
+ * changed, so undo and redo restore everything the configuration describes, including artwork
+ * and mask swaps (the binding reloads the images through MaterialPipeline.updateLayerTextures).
+ *
+ * Continuous edits (slider drags) run through coalesce() and become a single step, ended by
+ * endCoalescing() (e.g. on pointer release) or a pause longer than coalesceWindow.
+ * The oldest steps are dropped beyond the step limit or the memory budget.
+ */
+export class ConfigurationHistory {
+  private config: CardConfiguration;
+  private options: HistoryOptions;
+  private undoStack: ConfigurationCommand[] = [];
+  private redoStack: ConfigurationCommand[] = [];
+  private bytes: number = 0;
+  private listeners: Set<HistoryListener> = new Set();
+  private unsubscribe: () => void;
+
+  private applying: boolean = false; // Changes made by undo/redo are not recorded
+  private coalesceKey: string | null = null; // Key of the coalesce() call in progress
+  private edit: ContinuousEdit | null = null; // Edit that changes with the same key still merge into
+  private lastChangeTime: number = 0;
+
+  constructor(config: CardConfiguration, options: Partial<HistoryOptions> = {}) {
+    this.config = config;
+    this.options = ConfigurationHistory.validateOptions({ ...DEFAULT_HISTORY_OPTIONS, ...options });
+    this.unsubscribe = config.subscribe(change => this.record(change));
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Label of the step undo() would revert (null if there is none)
+   */
+  get undoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Label of the step redo() would reapply (null if there is none)
+   */
+  get redoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Estimated memory held by the history (bytes)
+   */
+  get size(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Make configuration changes as part of a continuous edit
+   * Consecutive calls with the same key become one undo step.
+   *
+   * @param key - Identifies the edit (e.g. 'width' for the width slider)
+   * @param action - Makes the changes
+   */
+  coalesce(key: string, action: () => void): void {
+    const previousKey = this.coalesceKey;
+    this.coalesceKey = key;
+    try {
+      action();
+    } finally {
+      this.coalesceKey = previousKey;
+    }
+  }
+
+  /**
+   * End the continuous edit in progress; the next change starts a new step
+   */
+  endCoalescing(): void {
+    this.edit = null;
+  }
+
+  /**
+   * Revert the last step
+   * @returns false if there was nothing to undo
+   */
+  undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) {
+      return false;
+    }
+    this.redoStack.push(command);
+    this.applyState(command.before);
+    return true;
+  }
+
+  /**
+   * Reapply the last undone step
+   * @returns false if there was nothing to redo
+   */
+  redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) {
+      return false;
+    }
+    this.undoStack.push(command);
+    this.applyState(command.after);
+    return true;
+  }
+
+  /**
+   * Forget every step (e.g. after loading a saved configuration)
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.bytes = 0;
+    this.edit = null;
+    this.notify();
+  }
+
+  /**
+   * Listen for changes to the undo/redo stacks; returns a function that stops listening
+   */
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  dispose(): void {
+    this.unsubscribe();
+    this.listeners.clear();
+    this.undoStack = [];
+    this.redoStack = [];
+    this.bytes = 0;
+  }
+
+  /**
+   * Turn a configuration change into a step, or merge it into the continuous edit in progress
+   */
+  private record({ state, previous, keys }: ConfigurationChange): void {
+    if (this.applying) {
+      return;
+    }
+
+    const now = performance.now();
+    const edit = this.edit;
+    const merge =
+      edit !== null &&
+      edit.key === this.coalesceKey &&
+      now - this.lastChangeTime <= this.options.coalesceWindow;
+
+    this.lastChangeTime = now;
+
+    // A new edit makes the undone steps unreachable
+    for (const command of this.redoStack) {
+      this.bytes -= command.size;
+    }
+    this.redoStack = [];
+
+    if (merge) {
+      for (const key of keys) {
+        if (!(key in edit.before)) {
+          copyEntry(edit.before, previous, key);
+        }
+        copyEntry(edit.after, state, key);
+      }
+
+      if (edit.command && this.undoStack[this.undoStack.length - 1] === edit.command) {
+        this.undoStack.pop();
+        this.bytes -= edit.command.size;
+      }
+      // Dragged back to where it started: nothing left to undo, but the edit keeps its start
+      edit.command = JSON.stringify(edit.before) !== JSON.stringify(edit.after)
+        ? this.createCommand(edit.key, { ...edit.before }, { ...edit.after }, edit.key)
+        : null;
+      if (edit.command) {
+        this.push(edit.command);
+      }
+    } else {
+      const before: Partial<CardConfigurationState> = {};
+      const after: Partial<CardConfigurationState> = {};
+      for (const key of keys) {
+        copyEntry(before, previous, key);
+        copyEntry(after, state, key);
+      }
+      const command = this.createCommand(this.coalesceKey ?? [...keys].join(', '), before, after, this.coalesceKey);
+      this.push(command);
+      this.edit = this.coalesceKey !== null
+        ? { key: this.coalesceKey, before: { ...before }, after: { ...after }, command }
+        : null;
+    }
+
+    this.notify();
+  }
+
+  private createCommand(
+    label: string,
+    before: Partial<CardConfigurationState>,
+    after: Partial<CardConfigurationState>,
+    coalesceKey: string | null
+  ): ConfigurationCommand {
+    // JSON length in UTF-16 code units: a fair measure of what the step keeps alive
+    const size = 2 * (JSON.stringify(before).length + JSON.stringify(after).length);
+    return { label, before, after, coalesceKey, size };
+  }
+
+  /**
+   * Add a step, dropping the oldest ones beyond the step limit or memory budget
+   * (the newest step is always kept)
+   */
+  private push(command: ConfigurationCommand): void {
+    this.undoStack.push(command);
+    this.bytes += command.size;
+
+    while (
+      this.undoStack.length > 1 &&
+      (this.undoStack.length > this.options.limit || this.bytes > this.options.maxBytes)
+    ) {
+      this.bytes -= this.undoStack.shift()!.size;
+    }
+  }
+
+  /**
+   * Apply a step's entries without recording them
+   */
+  private applyState(entries: Partial<CardConfigurationState>): void {
+    this.edit = null;
+    this.applying = true;
+    try {
+      this.config.update(entries);
+    } finally {
+      this.applying = false;
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of [...this.listeners]) {
+      listener(this);
+    }
+  }
+
+  /**
+   * Throw if the limits are not positive
+   */
+  private static validateOptions(options: HistoryOptions): HistoryOptions {
+    if (!(options.limit >= 1) || !(options.maxBytes > 0) || !(options.coalesceWindow >= 0)) {
+      throw new Error('History limit must be at least 1, maxBytes positive and coalesceWindow non-negative');
+    }
+    return options;
+  }
+}
@@ -0,0 +1,288 @@
+import { CardConfiguration, CardConfigurationState, ConfigurationKey, defaultConfiguration } from './CardConfiguration.js';
+
+/**
+ * Current link format version
+ * Bump it whenever the meaning of an encoded link would change (a key renamed, a default changed,
+ * units changed) and add a migration from the previous version.
+ */
+export const LINK_VERSION = 1;
+
+// URL fragment / query parameter that carries the configuration
+export const LINK_PARAMETER = 'card';
+
+/**
+ * Short link names of the configuration entries
+ * Links keep these names when a configuration entry is renamed, so sent links stay valid.
+ */
+const LINK_KEYS: Record<ConfigurationKey, string> = {
+  product: 'p',
+  sizePreset: 'sp',
+  width: 'w',
+  height: 'h',
+  cornerRadius: 'r',
+  corners: 'co',
+  dieCut: 'dc',
+  cutouts: 'cu',
+  thickness: 't',
+  substrate: 'su',
+  paperStock: 'ps',
+  plyStock: 'pl',
+  plyColors: 'pc',
+  lamination: 'la',
+  edge: 'e',
+  faces: 'f',
+  letterpress: 'lp',
+  spotUV: 'uv',
+  emboss: 'em'
+};
+
+/**
+ * Encoded payload: format version and the entries that differ from the defaults of that version
+ */
+interface LinkPayload {
+  v: number;
+  c: Record<string, unknown>;
+}
+
+/**
+ * Upgrades a payload of version N to version N + 1 (keyed by N)
+ */
+const MIGRATIONS: Record<number, (payload: LinkPayload) => LinkPayload> = {
+  // e.g. 1: payload => ({ v: 2, c: { ...payload.c, renamedKey: payload.c.oldKey } })
+};
+
+/**
+ * A configuration restored from a link
+ * warnings lists what could not be restored (those entries keep their default)
+ */
+export interface ConfigurationLink {
+  state: CardConfigurationState;
+  version: number;
+  warnings: string[];
+}
+
+/**
+ * Encode a configuration as a compact, URL-safe string
+ * Only what differs from the defaults is stored. Artwork and masks that only exist in this
+ * browser (blob: and data: URLs) cannot be shared and are left out (see localAssets).
+ */
+export function encodeConfiguration(state: CardConfigurationState): string {
+  const defaults = defaultConfiguration();
+  const entries: Record<string, unknown> = {};
+
+  for (const key of Object.keys(LINK_KEYS) as ConfigurationKey[]) {
+    const value = diff(withoutLocalAssets(key, state[key]), defaults[key]);
+    if (value !== undefined) {
+      entries[LINK_KEYS[key]] = value;
+    }
+  }
+
+  const payload: LinkPayload = { v: LINK_VERSION, c: entries };
+  return `${LINK_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * Decode a string made by encodeConfiguration (this or an older version)
+ * Malformed links throw; entries that are unknown or invalid are skipped with a warning.
+ */
+export function decodeConfiguration(encoded: string): ConfigurationLink {
+  const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(encoded.trim());
+  if (!match) {
+    throw new Error('Malformed configuration link');
+  }
+
+  let payload: LinkPayload;
+  try {
+    payload = JSON.parse(fromBase64Url(match[2]));
+  } catch {
+    throw new Error('Malformed configuration link: payload is not readable');
+  }
+  if (typeof payload !== 'object' || payload === null || payload.v !== Number(match[1]) ||
+      typeof payload.c !== 'object' || payload.c === null) {
+    throw new Error('Malformed configuration link: bad payload');
+  }
+  if (payload.v > LINK_VERSION) {
+    throw new Error(`Configuration link version ${payload.v} is newer than this configurator (${LINK_VERSION})`);
+  }
+
+  const version = payload.v;
+  while (payload.v < LINK_VERSION) {
+    const migrate = MIGRATIONS[payload.v];
+    if (!migrate) {
+      throw new Error(`No migration for configuration link version ${payload.v}`);
+    }
+    payload = migrate(payload);
+  }
+
+  // Apply entry by entry, so one bad entry does not discard the rest
+  const config = new CardConfiguration();
+  const defaults = defaultConfiguration();
+  const warnings: string[] = [];
+  const linkNames = new Map(Object.entries(LINK_KEYS).map(([key, name]) => [name, key as ConfigurationKey]));
+
+  for (const [name, value] of Object.entries(payload.c)) {
+    const key = linkNames.get(name);
+    if (!key) {
+      warnings.push(`Unknown entry "${name}" ignored`);
+      continue;
+    }
+    try {
+      config.update({ [key]: merge(defaults[key], value, key) });
+    } catch (error) {
+      warnings.push(`${key} not restored: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return { state: config.snapshot(), version, warnings };
+}
+
+/**
+ * Read the configuration link of a page URL (#card=... or ?card=...)
+ * @returns null if the URL has no link or it cannot be read (with a warning)
+ */
+export function readConfigurationLink(location: Pick<Location, 'hash' | 'search'>): ConfigurationLink | null {
+  const encoded =
+    new URLSearchParams(location.hash.replace(/^#/, '')).get(LINK_PARAMETER) ??
+    new URLSearchParams(location.search).get(LINK_PARAMETER);
+  if (!encoded) {
+    return null;
+  }
+
+  try {
+    const link = decodeConfiguration(encoded);
+    link.warnings.forEach(warning => console.warn(`Configuration link: ${warning}`));
+    return link;
+  } catch (error) {
+    console.warn(`${error instanceof Error ? error.message : error}; starting from the default card`);
+    return null;
+  }
+}
+
+/**
+ * Page URL that opens a configuration (in the fragment, so it never reaches the server)
+ */
+export function configurationLinkURL(state: CardConfigurationState, base: string): string {
+  const url = new URL(base);
+  url.searchParams.delete(LINK_PARAMETER);
+  url.hash = `${LINK_PARAMETER}=${encodeConfiguration(state)}`;
+  return url.toString();
+}
+
+/**
+ * Artwork and masks of a configuration that only this browser can load, e.g. "front artwork"
+ * (encodeConfiguration leaves them out)
+ */
+export function localAssets(state: CardConfigurationState): string[] {
+  const assets: string[] = [];
+  for (const [face, settings] of Object.entries(state.faces)) {
+    if (isLocalAsset(settings.artwork)) {
+      assets.push(`${face} artwork`);
+    }
+    for (const [id, path] of Object.entries(settings.masks)) {
+      if (isLocalAsset(path)) {
+        assets.push(`${face} ${id} mask`);
+      }
+    }
+    if (isLocalAsset(settings.foilChannels?.mask)) {
+      assets.push(`${face} foil channel mask`);
+    }
+  }
+  return assets;
+}
+
+function isLocalAsset(path: string | null | undefined): boolean {
+  return !!path && /^(blob|data):/.test(path);
+}
+
+/**
+ * Leave out of the link what only this browser can load
+ */
+function withoutLocalAssets(key: ConfigurationKey, value: unknown): unknown {
+  if (key !== 'faces') {
+    return value;
+  }
+
+  const faces = structuredClone(value) as CardConfigurationState['faces'];
+  for (const settings of Object.values(faces)) {
+    if (isLocalAsset(settings.artwork)) {
+      settings.artwork = null;
+    }
+    for (const [id, path] of Object.entries(settings.masks)) {
+      if (isLocalAsset(path)) {
+        delete settings.masks[id];
+      }
+    }
+    if (settings.foilChannels && isLocalAsset(settings.foilChannels.mask)) {
+      settings.foilChannels = null;
+    }
+  }
+  return faces;
+}
+
+/**
+ * Parts of value that differ from base (undefined if none)
+ * Objects are compared entry by entry; arrays, and objects replacing null, are stored whole.
+ * Numbers are rounded to 0.1 µm / 4 decimals, which keeps drag offsets short.
+ */
+function diff(value: unknown, base: unknown): unknown {
+  if (isRecord(value) && isRecord(base)) {
+    const changes: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      const change = key in base ? diff(value[key], base[key]) : round(value[key]);
+      if (change !== undefined) {
+        changes[key] = change;
+      }
+    }
+    return Object.keys(changes).length > 0 ? changes : undefined;
+  }
+  return JSON.stringify(value) === JSON.stringify(base) ? undefined : round(value);
+}
+
+/**
+ * Inverse of diff: base with the stored parts applied
+ * Throws where the stored value and the default disagree in kind (object, list or value type).
+ */
+function merge(base: unknown, value: unknown, path: string): unknown {
+  if (isRecord(base)) {
+    if (!isRecord(value)) {
+      throw new Error(`expected an object at ${path}`);
+    }
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, entry] of Object.entries(value)) {
+      merged[key] = key in base ? merge(base[key], entry, `${path}.${key}`) : entry;
+    }
+    return merged;
+  }
+  if (base !== null && base !== undefined && (typeof value !== typeof base || Array.isArray(value) !== Array.isArray(base))) {
+    throw new Error(`expected ${Array.isArray(base) ? 'a list' : `a ${typeof base}`} at ${path}`);
+  }
+  return value;
+}
+
+function round(value: unknown): unknown {
+  if (typeof value === 'number') {
+    return Math.round(value * 1e4) / 1e4;
+  }
+  if (Array.isArray(value)) {
+    return value.map(round);
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, round(entry)]));
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
@@ -0,0 +1,68 @@
+import { CardConfigurationState, PrintedFace } from './CardConfiguration.js';
+import { EdgeFinish, PlyStockName } from '../engine/EdgeFinish.js';
+import { LayerKind } from '../engine/LayerStack.js';
+import { PaperStockName } from '../engine/PaperStocks.js';
+import { SubstrateName } from '../engine/Substrates.js';
+
+/**
+ * Surcharges in £ on top of the base price
+ * Paper substrates are priced by stock; plastic and metal by substrate.
+ * Built-in table; catalogue products may override any of it (see productPrices).
+ */
+export const PRICES = {
+  base: 0,
+  paperStock: { silk: 0, linen: 5, felt: 10, laid: 8, cotton: 15 } as Record<PaperStockName, number>,
+  substrate: { paper: 0, clearPVC: 20, frostedPVC: 22, brushedSteel: 40 } as Record<SubstrateName, number>,
+  edge: { stock: 0, painted: 8, foil: 15 } as Record<EdgeFinish['mode'], number>,
+  plyStock: { single: 0, duplex: 6, triplex: 10 } as Record<PlyStockName, number>,
+  layer: { foil: 10, spotUV: 5, emboss: 15, deboss: 15, letterpress: 20 } as Partial<Record<LayerKind, number>>,
+  foilChannel: 10, // Each colour of a multi-channel foil is its own stamping pass
+  cutout: 2 // Each hole is a separate drilling/punching pass
+};
+
+export type PriceTable = typeof PRICES;
+
+/**
+ * Surcharge of the chosen material: the paper stock on paper, otherwise the substrate
+ */
+export function materialPrice(state: Pick<CardConfigurationState, 'substrate' | 'paperStock'>, prices: PriceTable = PRICES): number {
+  return state.substrate === 'paper' ? prices.paperStock[state.paperStock] : prices.substrate[state.substrate];
+}
+
+/**
+ * Total price of a configuration
+ *
+ * @param state - The configuration
+ * @param prices - Price table of the configuration's product
+ * @param cutoutCount - Holes actually cut (the geometry skips cutouts that cross the edge or overlap);
+ *                      defaults to every requested cutout
+ */
+export function priceConfiguration(
+  state: CardConfigurationState,
+  prices: PriceTable = PRICES,
+  cutoutCount: number = state.cutouts.length
+): number {
+  let price = prices.base + materialPrice(state, prices) + prices.edge[state.edge.mode];
+
+  // Plastic and metal sheets are a single ply
+  if (state.substrate === 'paper') {
+    price += prices.plyStock[state.plyStock];
+  }
+
+  for (const face of ['front', 'back'] as PrintedFace[]) {
+    const settings = state.faces[face];
+    for (const [kind, layer] of Object.entries(settings.layers) as [LayerKind, { enabled: boolean }][]) {
+      price += layer.enabled ? prices.layer[kind] ?? 0 : 0;
+    }
+    price += prices.foilChannel * (settings.foilChannels?.channels.length ?? 0);
+  }
+
+  return price + prices.cutout * cutoutCount;
+}
+
+/**
+ * Surcharge label as shown on an option, e.g. "+£5.00" ("£0.00" when included)
+ */
+export function formatSurcharge(amount: number): string {
+  return amount > 0 ? `+£${amount.toFixed(2)}` : '£0.00';
+}
@@ -0,0 +1,548 @@
+import {
+  CardConfigurationState,
+  ConfigurationKey,
+  DEFAULT_PRODUCT,
+  EdgeSettings,
+  SIZE_PRESETS,
+  copyEntry,
+  defaultConfiguration
+} from './CardConfiguration.js';
+import { PRICES, PriceTable } from './Pricing.js';
+import { PlyStockName, getPlyStock } from '../engine/EdgeFinish.js';
+import { FoilPresetName, getFoilPreset } from '../engine/FoilPresets.js';
+import { LayerKind } from '../engine/LayerStack.js';
+import { LaminationName, PaperStockName, getLamination, getPaperStock } from '../engine/PaperStocks.js';
+import { SubstrateName, getSubstrate } from '../engine/Substrates.js';
+import { mmToPt, ptToMm } from '../engine/Units.js';
+
+export const CATALOGUE_VERSION = 1;
+
+// Served from public/, so merchandising edits need no rebuild
+export const DEFAULT_CATALOGUE_PATH = '/catalogue.json';
+
+const LAYER_KINDS: LayerKind[] = ['foil', 'multiFoil', 'spotUV', 'emboss', 'deboss', 'whiteInk', 'letterpress'];
+
+/**
+ * A standard size of a product (the id is stored as the configuration's sizePreset)
+ */
+export interface ProductSize {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Ranges (mm, [min, max]) of the custom size sliders
+ */
+export interface CustomSizeRange {
+  width: [number, number];
+  height: [number, number];
+  cornerRadius: [number, number];
+}
+
+/**
+ * A material option: a paper stock, or a plastic/metal substrate
+ */
+export interface ProductMaterial {
+  name: string;
+  substrate: SubstrateName;
+  paperStock?: PaperStockName; // Paper only
+}
+
+export interface ProductEdgeFinish {
+  name: string;
+  mode: EdgeSettings['mode'];
+  foil?: FoilPresetName; // Foil edges only
+}
+
+export interface ProductSwatch {
+  name: string;
+  color: string;
+}
+
+export interface ProductPlyStock {
+  name: string;
+  plyStock: PlyStockName;
+}
+
+export interface ProductLamination {
+  name: string;
+  lamination: LaminationName;
+}
+
+/**
+ * A print layer the product can carry on the front (toggled in the Print Layers step)
+ */
+export interface ProductLayer {
+  name: string;
+  kind: LayerKind;
+}
+
+/**
+ * Starting configuration of a product; every value must be one the product offers
+ */
+export interface ProductDefaults {
+  size: string;
+  thickness: number; // Caliper points
+  cornerRadius: number;
+  substrate: SubstrateName;
+  paperStock: PaperStockName;
+  plyStock: PlyStockName;
+  lamination: LaminationName;
+  edge: EdgeSettings;
+}
+
+/**
+ * A product and what the configurator offers for it
+ * prices override entries of the built-in price table (PRICES)
+ */
+export interface Product {
+  id: string;
+  name: string;
+  sizes: ProductSize[];
+  customSize: CustomSizeRange | null; // null: no custom sizes
+  thicknesses: number[]; // Caliper points
+  materials: ProductMaterial[];
+  edgeFinishes: ProductEdgeFinish[];
+  edgeColors: ProductSwatch[];
+  plyStocks: ProductPlyStock[];
+  laminations: ProductLamination[];
+  layers: ProductLayer[];
+  prices: DeepPartial<PriceTable>;
+  defaults: ProductDefaults;
+}
+
+export interface ProductCatalogue {
+  version: number;
+  products: Product[];
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? Partial<T[K]> : T[K] };
+
+/**
+ * Load and validate the product catalogue
+ * Throws if it cannot be fetched or is not a valid catalogue.
+ */
+export async function loadCatalogue(path: string = DEFAULT_CATALOGUE_PATH): Promise<ProductCatalogue> {
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`Failed to load product catalogue ${path}: ${response.status} ${response.statusText}`);
+  }
+  return validateCatalogue(await response.json());
+}
+
+/**
+ * Check parsed JSON against the catalogue schema
+ * Throws an Error naming the first offending field (e.g. "products[0].sizes[1].width").
+ */
+export function validateCatalogue(data: unknown): ProductCatalogue {
+  const catalogue = expectObject(data, 'catalogue');
+  if (catalogue.version !== CATALOGUE_VERSION) {
+    throw new Error(`catalogue.version: expected ${CATALOGUE_VERSION}, got ${JSON.stringify(catalogue.version)}`);
+  }
+
+  const products = expectList(catalogue.products, 'products', validateProduct);
+  unique(products.map(product => product.id), 'products', 'product id');
+  return { version: CATALOGUE_VERSION, products };
+}
+
+/**
+ * A product of the catalogue (the first one if no id is given)
+ */
+export function getProduct(catalogue: ProductCatalogue, id?: string): Product {
+  const product = id === undefined ? catalogue.products[0] : catalogue.products.find(entry => entry.id === id);
+  if (!product) {
+    throw new Error(`Unknown product: ${id}`);
+  }
+  return product;
+}
+
+/**
+ * Price table of a product: the built-in prices with the product's overrides
+ */
+export function productPrices(product: Product): PriceTable {
+  const prices = structuredClone(PRICES);
+  for (const key of Object.keys(product.prices) as (keyof PriceTable)[]) {
+    overridePrice(prices, key, product.prices[key]);
+  }
+  return prices;
+}
+
+/**
+ * Apply one override: a section's entries are replaced one by one, an amount whole
+ */
+function overridePrice<K extends keyof PriceTable>(prices: PriceTable, key: K, value: DeepPartial<PriceTable>[K]): void {
+  if (value !== undefined) {
+    prices[key] = (typeof value === 'object' ? { ...(prices[key] as object), ...value } : value) as PriceTable[K];
+  }
+}
+
+/**
+ * Configuration entries a product starts with
+ */
+export function productDefaults(product: Product): Partial<CardConfigurationState> {
+  const { defaults } = product;
+  const size = product.sizes.find(entry => entry.id === defaults.size)!;
+  return {
+    product: product.id,
+    sizePreset: size.id,
+    width: size.width,
+    height: size.height,
+    cornerRadius: defaults.cornerRadius,
+    corners: null,
+    thickness: ptToMm(defaults.thickness),
+    substrate: defaults.substrate,
+    paperStock: defaults.paperStock,
+    plyStock: defaults.plyStock,
+    lamination: defaults.lamination,
+    edge: { ...defaults.edge }
+  };
+}
+
+/**
+ * Complete starting configuration of a product
+ */
+export function productConfiguration(product: Product): CardConfigurationState {
+  return { ...defaultConfiguration(), ...productDefaults(product) };
+}
+
+/**
+ * Bring a configuration within what its product offers (e.g. one restored from a link made
+ * before the catalogue changed): entries the product does not offer take the product's defaults,
+ * custom sizes are clamped to its ranges and layers it cannot carry are switched off.
+ *
+ * @returns The conforming state and a description of each change
+ */
+export function conformToProduct(state: CardConfigurationState, product: Product): { state: CardConfigurationState; warnings: string[] } {
+  const defaults = productConfiguration(product);
+  const next: CardConfigurationState = { ...state, product: product.id };
+  const warnings: string[] = [];
+  const reset = (keys: ConfigurationKey[], reason: string) => {
+    for (const key of keys) {
+      copyEntry(next, defaults, key);
+    }
+    warnings.push(`${reason}; using ${product.name} default`);
+  };
+
+  // Size
+  if (state.sizePreset === 'custom') {
+    const range = product.customSize;
+    if (!range) {
+      reset(['sizePreset', 'width', 'height', 'cornerRadius', 'corners'], `${product.name} has no custom sizes`);
+    } else {
+      const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+      next.width = clamp(state.width, range.width);
+      next.height = clamp(state.height, range.height);
+      next.cornerRadius = clamp(state.cornerRadius, range.cornerRadius);
+      if (next.width !== state.width || next.height !== state.height || next.cornerRadius !== state.cornerRadius) {
+        warnings.push(`Custom size clamped to the ${product.name} range`);
+      }
+    }
+  } else {
+    const size = product.sizes.find(entry => entry.id === state.sizePreset);
+    if (!size) {
+      reset(['sizePreset', 'width', 'height'], `Size "${state.sizePreset}" is not offered`);
+    } else {
+      next.width = size.width;
+      next.height = size.height;
+    }
+  }
+
+  // Stock
+  if (!product.thicknesses.some(pt => Math.abs(ptToMm(pt) - state.thickness) < ptToMm(0.5))) {
+    reset(['thickness'], `${Math.round(mmToPt(state.thickness))}pt stock is not offered`);
+  }
+  if (!product.materials.some(material => offersMaterial(material, state))) {
+    reset(['substrate', 'paperStock'], `Material ${state.substrate === 'paper' ? state.paperStock : state.substrate} is not offered`);
+  }
+  if (!product.plyStocks.some(option => option.plyStock === state.plyStock)) {
+    reset(['plyStock'], `${state.plyStock} stock is not offered`);
+  }
+  if (!product.laminations.some(option => option.lamination === state.lamination)) {
+    reset(['lamination'], `${state.lamination} lamination is not offered`);
+  }
+  if (!product.edgeFinishes.some(option => option.mode === state.edge.mode && (option.mode !== 'foil' || option.foil === state.edge.foil))) {
+    reset(['edge'], `${state.edge.mode} edge is not offered`);
+  }
+
+  // Print layers the product cannot carry
+  const kinds = new Set(product.layers.map(layer => layer.kind));
+  let faces = next.faces;
+  for (const face of ['front', 'back'] as const) {
+    for (const [kind, layer] of Object.entries(faces[face].layers) as [LayerKind, { enabled: boolean; intensity: number }][]) {
+      if (layer.enabled && !kinds.has(kind)) {
+        const layers = { ...faces[face].layers, [kind]: { ...layer, enabled: false } };
+        faces = { ...faces, [face]: { ...faces[face], layers } };
+        warnings.push(`${product.name} cannot carry ${kind}; turned off on the ${face}`);
+      }
+    }
+  }
+  next.faces = faces;
+
+  return { state: next, warnings };
+}
+
+/**
+ * Whether a material option is the configuration's substrate (and paper stock)
+ */
+export function offersMaterial(material: ProductMaterial, state: Pick<CardConfigurationState, 'substrate' | 'paperStock'>): boolean {
+  return material.substrate === state.substrate && (material.substrate !== 'paper' || material.paperStock === state.paperStock);
+}
+
+/**
+ * The smallest useful catalogue: the default card with no options, for when the catalogue cannot be loaded
+ */
+export function fallbackCatalogue(): ProductCatalogue {
+  const state = defaultConfiguration();
+  return {
+    version: CATALOGUE_VERSION,
+    products: [
+      {
+        id: DEFAULT_PRODUCT,
+        name: 'Business Card',
+        sizes: [{ id: state.sizePreset, name: 'Traditional', ...SIZE_PRESETS.traditional }],
+        customSize: null,
+        thicknesses: [Math.round(mmToPt(state.thickness))],
+        materials: [{ name: 'Standard', substrate: state.substrate, paperStock: state.paperStock }],
+        edgeFinishes: [{ name: 'Unpainted', mode: 'stock' }],
+        edgeColors: [],
+        plyStocks: [{ name: 'Single Ply', plyStock: state.plyStock }],
+        laminations: [{ name: 'Matte', lamination: state.lamination }],
+        layers: [],
+        prices: {},
+        defaults: {
+          size: state.sizePreset,
+          thickness: Math.round(mmToPt(state.thickness)),
+          cornerRadius: state.cornerRadius,
+          substrate: state.substrate,
+          paperStock: state.paperStock,
+          plyStock: state.plyStock,
+          lamination: state.lamination,
+          edge: { ...state.edge }
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * Validate one product, including that its defaults are among its options
+ */
+function validateProduct(data: unknown, path: string): Product {
+  const product = expectObject(data, path);
+
+  const sizes = expectList(product.sizes, `${path}.sizes`, (entry, at) => {
+    const size = expectObject(entry, at);
+    return {
+      id: expectString(size.id, `${at}.id`),
+      name: expectString(size.name, `${at}.name`),
+      width: expectNumber(size.width, `${at}.width`),
+      height: expectNumber(size.height, `${at}.height`)
+    };
+  });
+  unique(sizes.map(size => size.id), `${path}.sizes`, 'size id');
+  if (sizes.some(size => size.id === 'custom')) {
+    throw new Error(`${path}.sizes: "custom" is reserved for custom sizes`);
+  }
+
+  let customSize: CustomSizeRange | null = null;
+  if (product.customSize !== null && product.customSize !== undefined) {
+    const range = expectObject(product.customSize, `${path}.customSize`);
+    customSize = {
+      width: expectRange(range.width, `${path}.customSize.width`),
+      height: expectRange(range.height, `${path}.customSize.height`),
+      cornerRadius: expectRange(range.cornerRadius, `${path}.customSize.cornerRadius`, true)
+    };
+  }
+
+  const thicknesses = expectList(product.thicknesses, `${path}.thicknesses`, (entry, at) => expectNumber(entry, at));
+
+  const materials = expectList(product.materials, `${path}.materials`, (entry, at) => {
+    const material = expectObject(entry, at);
+    const substrate = expectName(material.substrate, `${at}.substrate`, getSubstrate);
+    return {
+      name: expectString(material.name, `${at}.name`),
+      substrate,
+      ...(substrate === 'paper' ? { paperStock: expectName(material.paperStock, `${at}.paperStock`, getPaperStock) } : {})
+    };
+  });
+
+  const edgeFinishes = expectList(product.edgeFinishes, `${path}.edgeFinishes`, (entry, at) => {
+    const finish = expectObject(entry, at);
+    const mode = expectOneOf(finish.mode, `${at}.mode`, ['stock', 'painted', 'foil'] as const);
+    return {
+      name: expectString(finish.name, `${at}.name`),
+      mode,
+      ...(mode === 'foil' ? { foil: expectName(finish.foil, `${at}.foil`, getFoilPreset) } : {})
+    };
+  });
+
+  const edgeColors = expectList(product.edgeColors ?? [], `${path}.edgeColors`, (entry, at) => {
+    const swatch = expectObject(entry, at);
+    return { name: expectString(swatch.name, `${at}.name`), color: expectColor(swatch.color, `${at}.color`) };
+  }, 0);
+
+  const plyStocks = expectList(product.plyStocks, `${path}.plyStocks`, (entry, at) => {
+    const option = expectObject(entry, at);
+    return { name: expectString(option.name, `${at}.name`), plyStock: expectName(option.plyStock, `${at}.plyStock`, getPlyStock) };
+  });
+
+  const laminations = expectList(product.laminations, `${path}.laminations`, (entry, at) => {
+    const option = expectObject(entry, at);
+    return { name: expectString(option.name, `${at}.name`), lamination: expectName(option.lamination, `${at}.lamination`, getLamination) };
+  });
+
+  const layers = expectList(product.layers ?? [], `${path}.layers`, (entry, at) => {
+    const layer = expectObject(entry, at);
+    return { name: expectString(layer.name, `${at}.name`), kind: expectOneOf(layer.kind, `${at}.kind`, LAYER_KINDS) };
+  }, 0);
+  unique(layers.map(layer => layer.kind), `${path}.layers`, 'layer kind');
+
+  const result: Product = {
+    id: expectString(product.id, `${path}.id`),
+    name: expectString(product.name, `${path}.name`),
+    sizes,
+    customSize,
+    thicknesses,
+    materials,
+    edgeFinishes,
+    edgeColors,
+    plyStocks,
+    laminations,
+    layers,
+    prices: validatePrices(product.prices ?? {}, `${path}.prices`),
+    defaults: validateDefaults(product.defaults, `${path}.defaults`)
+  };
+
+  // The defaults must be a configuration the product offers
+  if (!sizes.some(size => size.id === result.defaults.size)) {
+    throw new Error(`${path}.defaults.size: unknown size "${result.defaults.size}"`);
+  }
+  const offered = conformToProduct({ ...defaultConfiguration(), ...productDefaults(result) }, result);
+  if (offered.warnings.length > 0) {
+    throw new Error(`${path}.defaults: ${offered.warnings[0].replace(/;.*$/, '')}`);
+  }
+  return result;
+}
+
+function validateDefaults(data: unknown, path: string): ProductDefaults {
+  const defaults = expectObject(data, path);
+  const edge = expectObject(defaults.edge, `${path}.edge`);
+  return {
+    size: expectString(defaults.size, `${path}.size`),
+    thickness: expectNumber(defaults.thickness, `${path}.thickness`),
+    cornerRadius: expectNumber(defaults.cornerRadius, `${path}.cornerRadius`, true),
+    substrate: expectName(defaults.substrate, `${path}.substrate`, getSubstrate),
+    paperStock: expectName(defaults.paperStock, `${path}.paperStock`, getPaperStock),
+    plyStock: expectName(defaults.plyStock, `${path}.plyStock`, getPlyStock),
+    lamination: expectName(defaults.lamination, `${path}.lamination`, getLamination),
+    edge: {
+      mode: expectOneOf(edge.mode, `${path}.edge.mode`, ['stock', 'painted', 'foil'] as const),
+      paintColor: expectColor(edge.paintColor, `${path}.edge.paintColor`),
+      foil: expectName(edge.foil, `${path}.edge.foil`, getFoilPreset)
+    }
+  };
+}
+
+/**
+ * Price overrides: the sections and entries of the built-in table, each a non-negative amount
+ */
+function validatePrices(data: unknown, path: string): DeepPartial<PriceTable> {
+  const prices = expectObject(data, path);
+  for (const [key, value] of Object.entries(prices)) {
+    const builtIn = (PRICES as Record<string, unknown>)[key];
+    if (builtIn === undefined) {
+      throw new Error(`${path}.${key}: unknown price`);
+    }
+    if (typeof builtIn === 'number') {
+      expectNumber(value, `${path}.${key}`, true);
+      continue;
+    }
+    for (const [entry, amount] of Object.entries(expectObject(value, `${path}.${key}`))) {
+      if (!(entry in (builtIn as object))) {
+        throw new Error(`${path}.${key}.${entry}: unknown price`);
+      }
+      expectNumber(amount, `${path}.${key}.${entry}`, true);
+    }
+  }
+  return prices as DeepPartial<PriceTable>;
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${path}: expected an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`${path}: expected a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * A finite positive number (or zero, if allowed)
+ */
+function expectNumber(value: unknown, path: string, allowZero: boolean = false): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (value === 0 && !allowZero)) {
+    throw new Error(`${path}: expected a ${allowZero ? 'non-negative' : 'positive'} number`);
+  }
+  return value;
+}
+
+function expectRange(value: unknown, path: string, allowZero: boolean = false): [number, number] {
+  if (!Array.isArray(value) || value.length !== 2) {
+    throw new Error(`${path}: expected [min, max]`);
+  }
+  const range: [number, number] = [expectNumber(value[0], `${path}[0]`, allowZero), expectNumber(value[1], `${path}[1]`, allowZero)];
+  if (range[0] > range[1]) {
+    throw new Error(`${path}: min is greater than max`);
+  }
+  return range;
+}
+
+function expectColor(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !/^#[0-9a-f]{6}$/i.test(value)) {
+    throw new Error(`${path}: expected a #rrggbb colour`);
+  }
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, path: string, allowed: readonly T[]): T {
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${path}: expected one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * A name the engine catalogue knows (its getter throws on unknown names)
+ */
+function expectName<T extends string>(value: unknown, path: string, getter: (name: T) => unknown): T {
+  try {
+    getter(expectString(value, path) as T);
+  } catch {
+    throw new Error(`${path}: unknown name ${JSON.stringify(value)}`);
+  }
+  return value as T;
+}
+
+/**
+ * A list of at least minLength entries, each validated with its index in the path
+ */
+function expectList<T>(value: unknown, path: string, validate: (entry: unknown, path: string) => T, minLength: number = 1): T[] {
+  if (!Array.isArray(value) || value.length < minLength) {
+    throw new Error(`${path}: expected a list${minLength > 0 ? ` of at least ${minLength}` : ''}`);
+  }
+  return value.map((entry, index) => validate(entry, `${path}[${index}]`));
+}
+
+function unique(values: string[], path: string, what: string): void {
+  const duplicate = values.find((value, index) => values.indexOf(value) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`${path}: duplicate ${what} "${duplicate}"`);
+  }
+}
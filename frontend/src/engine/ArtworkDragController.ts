@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { EngineController } from './EngineController.js';
+import { CARD_FACE_MATERIAL_INDEX } from './CardGeometry.js';
+
+/**
+ * Artwork Drag Controller
+ * Alt + drag on a card face moves that face's artwork.
+ * Reports movement in mm in the face's artwork frame (as seen when looking at that face),
+ * leaving the placement itself to the caller (onDragEnd marks the end of a drag).
+ */
+export class ArtworkDragController {
+  private engine: EngineController;
+  private mesh: THREE.Mesh;
+  private onDrag: (face: 'front' | 'back', delta: THREE.Vector2) => void;
+  private onDragEnd: (() => void) | null;
+  private canvas: HTMLCanvasElement;
+  private raycaster = new THREE.Raycaster();
+
+  // Active drag: face, plane of the face (world space) and last hit point (mesh space)
+  private drag: { face: 'front' | 'back'; plane: THREE.Plane; last: THREE.Vector3; pointerId: number } | null = null;
+
+  private pointerDownHandler: (event: PointerEvent) => void;
+  private pointerMoveHandler: (event: PointerEvent) => void;
+  private pointerUpHandler: (event: PointerEvent) => void;
+
+  constructor(
+    engine: EngineController,
+    mesh: THREE.Mesh,
+    onDrag: (face: 'front' | 'back', delta: THREE.Vector2) => void,
+    onDragEnd: (() => void) | null = null
+  ) {
+    this.engine = engine;
+    this.mesh = mesh;
+    this.onDrag = onDrag;
+    this.onDragEnd = onDragEnd;
+    this.canvas = engine.getRenderer().domElement;
+
+    this.pointerDownHandler = (event) => this.handlePointerDown(event);
+    this.pointerMoveHandler = (event) => this.handlePointerMove(event);
+    this.pointerUpHandler = (event) => this.handlePointerUp(event);
+
+    // Capture phase, so the camera controls can be disabled before they see the event
+    this.canvas.addEventListener('pointerdown', this.pointerDownHandler, true);
+    this.canvas.addEventListener('pointermove', this.pointerMoveHandler);
+    this.canvas.addEventListener('pointerup', this.pointerUpHandler);
+    this.canvas.addEventListener('pointercancel', this.pointerUpHandler);
+  }
+
+  private handlePointerDown(event: PointerEvent): void {
+    if (!event.altKey || event.button !== 0) {
+      return;
+    }
+
+    const hit = this.raycast(event).intersectObject(this.mesh, false)[0];
+    const materialIndex = hit?.face?.materialIndex;
+    if (!hit || !hit.face || materialIndex === CARD_FACE_MATERIAL_INDEX.edge) {
+      return;
+    }
+
+    const normal = hit.face.normal.clone().transformDirection(this.mesh.matrixWorld);
+    this.drag = {
+      face: materialIndex === CARD_FACE_MATERIAL_INDEX.back ? 'back' : 'front',
+      plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, hit.point),
+      last: this.mesh.worldToLocal(hit.point.clone()),
+      pointerId: event.pointerId
+    };
+
+    this.engine.setControlsEnabled(false);
+    this.canvas.setPointerCapture(event.pointerId);
+    event.preventDefault();
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    if (!this.drag || event.pointerId !== this.drag.pointerId) {
+      return;
+    }
+
+    const point = this.raycast(event).ray.intersectPlane(this.drag.plane, new THREE.Vector3());
+    if (!point) {
+      return;
+    }
+
+    const local = this.mesh.worldToLocal(point);
+    const delta = new THREE.Vector2(local.x - this.drag.last.x, local.y - this.drag.last.y);
+    this.drag.last = local;
+
+    // The back face's artwork is mirrored in X relative to the card's local frame
+    if (this.drag.face === 'back') {
+      delta.x = -delta.x;
+    }
+    this.onDrag(this.drag.face, delta);
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    if (!this.drag || event.pointerId !== this.drag.pointerId) {
+      return;
+    }
+    this.drag = null;
+    this.engine.setControlsEnabled(true);
+    if (this.canvas.hasPointerCapture(event.pointerId)) {
+      this.canvas.releasePointerCapture(event.pointerId);
+    }
+    this.onDragEnd?.();
+  }
+
+  /**
+   * Raycaster for a pointer event (canvas coordinates to normalised device coordinates)
+   */
+  private raycast(event: PointerEvent): THREE.Raycaster {
+    const rect = this.canvas.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(ndc, this.engine.getCamera());
+    return this.raycaster;
+  }
+
+  /**
+   * Remove event listeners
+   */
+  dispose(): void {
+    this.canvas.removeEventListener('pointerdown', this.pointerDownHandler, true);
+    this.canvas.removeEventListener('pointermove', this.pointerMoveHandler);
+    this.canvas.removeEventListener('pointerup', this.pointerUpHandler);
+    this.canvas.removeEventListener('pointercancel', this.pointerUpHandler);
+    if (this.drag) {
+      this.engine.setControlsEnabled(true);
+      this.drag = null;
+    }
+  }
+}
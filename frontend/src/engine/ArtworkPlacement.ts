@@ -0,0 +1,82 @@
+import * as THREE from 'three';
+
+/**
+ * How the artwork is fitted to the card before the manual adjustments
+ * contain: whole artwork visible, unprinted stock around it; cover: card fully printed,
+ * artwork cropped; stretch: artwork distorted to the card's aspect ratio
+ */
+export type ArtworkFit = 'contain' | 'cover' | 'stretch';
+
+/**
+ * Artwork placement on one card face
+ * offsetX/offsetY move the artwork centre in mm (card coordinates, +Y up),
+ * scale multiplies the fitted size, rotation turns the artwork counter-clockwise in degrees,
+ * bleed is the bleed (mm per side) declared by the print file: the artwork is fitted to the bleed box,
+ * so its trim lands on the card edge and the bleed falls outside the card
+ */
+export interface ArtworkPlacement {
+  fit: ArtworkFit;
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+  rotation: number;
+  bleed: number;
+}
+
+export const DEFAULT_ARTWORK_PLACEMENT: ArtworkPlacement = {
+  fit: 'cover',
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1,
+  rotation: 0,
+  bleed: 0
+};
+
+/**
+ * Size of the fitted artwork in mm (before the manual scale)
+ *
+ * @param fit - Fit mode
+ * @param cardWidth - Card width in mm
+ * @param cardHeight - Card height in mm
+ * @param artworkAspect - Artwork width / height
+ */
+export function fittedArtworkSize(fit: ArtworkFit, cardWidth: number, cardHeight: number, artworkAspect: number): THREE.Vector2 {
+  if (fit === 'stretch') {
+    return new THREE.Vector2(cardWidth, cardHeight);
+  }
+
+  const cardAspect = cardWidth / cardHeight;
+  const fitWidth = fit === 'contain' ? artworkAspect >= cardAspect : artworkAspect < cardAspect;
+  return fitWidth
+    ? new THREE.Vector2(cardWidth, cardWidth / artworkAspect)
+    : new THREE.Vector2(cardHeight * artworkAspect, cardHeight);
+}
+
+/**
+ * Build the transform from card UVs (0..1 over the card) to artwork UVs
+ * Card UV -> card mm (centred) -> undo offset, rotation and scale -> artwork UV
+ * Artwork with bleed is fitted to the card grown by the bleed on every side (the bleed box)
+ *
+ * @param placement - Artwork placement
+ * @param cardWidth - Card width in mm
+ * @param cardHeight - Card height in mm
+ * @param artworkAspect - Artwork width / height
+ */
+export function artworkUVTransform(
+  placement: ArtworkPlacement,
+  cardWidth: number,
+  cardHeight: number,
+  artworkAspect: number
+): THREE.Matrix3 {
+  const bleed = Math.max(placement.bleed, 0);
+  const size = fittedArtworkSize(placement.fit, cardWidth + 2 * bleed, cardHeight + 2 * bleed, artworkAspect);
+  const scale = Math.max(placement.scale, 1e-3);
+
+  return new THREE.Matrix3()
+    .makeTranslation(-0.5, -0.5)
+    .premultiply(new THREE.Matrix3().makeScale(cardWidth, cardHeight))
+    .premultiply(new THREE.Matrix3().makeTranslation(-placement.offsetX, -placement.offsetY))
+    .premultiply(new THREE.Matrix3().makeRotation(-THREE.MathUtils.degToRad(placement.rotation)))
+    .premultiply(new THREE.Matrix3().makeScale(1 / (size.x * scale), 1 / (size.y * scale)))
+    .premultiply(new THREE.Matrix3().makeTranslation(0.5, 0.5));
+}
@@ -1,47 +1,205 @@
 import * as THREE from 'three';
+import {
+  CornerSpecs,
+  Cutout,
+  OutlineContours,
+  addCutouts,
+  cardOutline,
+  extractContours,
+  resolveCorners,
+  uniformCorners,
+  validateCorners,
+  validateCutout
+} from './CardOutline.js';
+
+/**
+ * Face triangulation mode
+ * outline: triangulated outline only, minimal vertex count
+ * grid: regular grid clipped to the outline, required for emboss displacement
+ */
+export type FaceTessellation = 'outline' | 'grid';
+
+/**
+ * Card faces, each rendered as its own geometry group
+ */
+export type CardFace = 'front' | 'back' | 'edge';
+
+/**
+ * Material index of each face group (index into the mesh's material array)
+ */
+export const CARD_FACE_MATERIAL_INDEX: Record<CardFace, number> = {
+  front: 0,
+  back: 1,
+  edge: 2
+};
+
+// Upper bound on grid segments per axis (keeps vertex count bounded for large cards)
+const MAX_GRID_SEGMENTS = 256;
+
+// Side walls are shaded smooth across outline vertices that turn less than this
+const SIDE_SMOOTHING_ANGLE = THREE.MathUtils.degToRad(30);
 
 /**
  * Procedural Card Geometry Generator
- * Creates dynamic card meshes with rounded corners, proper UVs, and thickness
+ * Creates dynamic card meshes from an outline (rounded rectangle or custom die-cut),
+ * with proper UVs and thickness
  * 
- * UVs are always in 0-1 range and scale with card size to match artwork scaling
+ * Face UVs are always in 0-1 range over the card's bounding box (the artwork area)
  */
 export class CardGeometry {
   private _geometry: THREE.BufferGeometry;
   private width: number;
   private height: number;
-  private thickness: number;
-  private cornerRadius: number;
-  private cornerSegments: number = 8;
+  private thickness: number; // Real caliper in mm
+  private thicknessExaggeration: number;
+  private corners: CornerSpecs; // As requested; clamped to the card size when building
+  private curveTolerance: number = 1.0; // Longest chord (mm) approximating a curved edge
+  private outline: THREE.Shape | null;
+  private cutouts: Cutout[];
+  private _cutoutCount: number = 0;
+  private _contours: OutlineContours = { outer: [], holes: [] };
+  private tessellation: FaceTessellation;
+  private gridCellSize: number;
 
   /**
    * Constructor with options object
+   * gridCellSize is the target grid spacing in mm; the segment count adapts to the card size
+   * cornerRadius is either one radius for four round corners or a spec per corner
+   * outline is an optional die-cut shape (see setOutline), cutouts are holes through the card
+   * thickness is the real stock caliper in mm; thicknessExaggeration scales only the built mesh
    */
   constructor(options: {
     width: number;
     height: number;
     thickness: number;
-    cornerRadius: number;
+    cornerRadius: number | CornerSpecs;
+    outline?: THREE.Shape;
+    cutouts?: Cutout[];
+    tessellation?: FaceTessellation;
+    gridCellSize?: number;
+    thicknessExaggeration?: number;
   }) {
     this.width = options.width;
     this.height = options.height;
     this.thickness = options.thickness;
-    this.cornerRadius = options.cornerRadius;
+    this.corners = CardGeometry.toCornerSpecs(options.cornerRadius);
+    this.outline = options.outline ?? null;
+    this.cutouts = CardGeometry.copyCutouts(options.cutouts ?? []);
+    this.tessellation = options.tessellation ?? 'outline';
+    this.gridCellSize = options.gridCellSize ?? 0.5;
+    this.thicknessExaggeration = CardGeometry.validateExaggeration(options.thicknessExaggeration ?? 1);
     this._geometry = new THREE.BufferGeometry();
     this.buildGeometry();
   }
 
+  /**
+   * Switch face triangulation and rebuild geometry
+   */
+  setTessellation(tessellation: FaceTessellation, gridCellSize: number = this.gridCellSize): void {
+    this.tessellation = tessellation;
+    this.gridCellSize = gridCellSize;
+    this.buildGeometry();
+  }
+
+  /**
+   * Cut the card to a custom outline (arcs, béziers and holes allowed), or null for the
+   * standard rounded rectangle. The card size becomes the outline's bounding box; later
+   * dimension changes stretch the outline to fit.
+   *
+   * @param outline - Closed outline in mm (e.g. from outlineFromSVGPath)
+   */
+  setOutline(outline: THREE.Shape | null): void {
+    this.outline = outline;
+    if (outline) {
+      const box = new THREE.Box2().setFromPoints(extractContours(outline, this.curveTolerance).outer);
+      this.width = box.max.x - box.min.x;
+      this.height = box.max.y - box.min.y;
+    }
+    this.buildGeometry();
+  }
+
   /**
    * Update card dimensions and rebuild geometry
+   * cornerRadius only applies to the standard outline
    */
-  updateDimensions(width: number, height: number, thickness: number, cornerRadius: number): void {
+  updateDimensions(width: number, height: number, thickness: number, cornerRadius: number | CornerSpecs): void {
     this.width = width;
     this.height = height;
     this.thickness = thickness;
-    this.cornerRadius = cornerRadius;
+    this.corners = CardGeometry.toCornerSpecs(cornerRadius);
     this.buildGeometry();
   }
 
+  /**
+   * Exaggerate the built thickness for edge-on viewing and rebuild geometry
+   * Real stock is a fraction of a millimetre thick; 1 shows it true to scale. Only the mesh
+   * changes: size.thickness stays the real caliper.
+   *
+   * @param factor - Visual thickness multiplier (>= 1)
+   */
+  setThicknessExaggeration(factor: number): void {
+    this.thicknessExaggeration = CardGeometry.validateExaggeration(factor);
+    this.buildGeometry();
+  }
+
+  get exaggeration(): number {
+    return this.thicknessExaggeration;
+  }
+
+  /**
+   * Thickness of the built mesh in mm (real caliper times the exaggeration)
+   */
+  get displayThickness(): number {
+    return this.thickness * this.thicknessExaggeration;
+  }
+
+  /**
+   * Set the style and radius of each corner and rebuild geometry
+   */
+  setCorners(corners: CornerSpecs): void {
+    this.corners = CardGeometry.toCornerSpecs(corners);
+    this.buildGeometry();
+  }
+
+  /**
+   * Punch holes, slots and windows through the card and rebuild geometry
+   * Cutouts that cross the card edge or overlap another hole are skipped
+   *
+   * @param cutouts - Cutouts positioned in mm from the card centre
+   */
+  setCutouts(cutouts: Cutout[]): void {
+    this.cutouts = CardGeometry.copyCutouts(cutouts);
+    this.buildGeometry();
+  }
+
+  /**
+   * Number of cutouts actually cut (invalid ones are skipped)
+   */
+  get cutoutCount(): number {
+    return this._cutoutCount;
+  }
+
+  /**
+   * Corners as built: validated and clamped to the current card size
+   */
+  get resolvedCorners(): CornerSpecs {
+    return resolveCorners(this.width, this.height, this.corners);
+  }
+
+  /**
+   * Card size in mm (bounding box of the outline, and the real thickness)
+   */
+  get size(): { width: number; height: number; thickness: number } {
+    return { width: this.width, height: this.height, thickness: this.thickness };
+  }
+
+  /**
+   * Outline contours of the current geometry in mm (outer edge and holes, cutouts included)
+   */
+  get contours(): OutlineContours {
+    return this._contours;
+  }
+
   /**
    * Get the Three.js geometry (getter property)
    */
@@ -51,6 +209,7 @@ export class CardGeometry {
 
   /**
    * Build the complete card geometry with front, back, and sides
+   * Each part is a geometry group (see CARD_FACE_MATERIAL_INDEX) so faces can use separate materials
    */
   private buildGeometry(): void {
     // Dispose old geometry if it exists
@@ -64,50 +223,58 @@ export class CardGeometry {
     const uvs: number[] = [];
     const indices: number[] = [];
 
-    const halfWidth = this.width / 2;
-    const halfHeight = this.height / 2;
-    const halfThickness = this.thickness / 2;
+    const halfThickness = this.displayThickness / 2;
+
+    // Triangulate the outline once; both faces share it
+    const contours = this.getContours();
+    const points = [contours.outer, ...contours.holes].flat();
+    const triangles = THREE.ShapeUtils.triangulateShape(contours.outer, contours.holes);
+
+    const buildFace = this.tessellation === 'grid' ? this.buildGridFace : this.buildFace;
 
     // Build front face (facing +Z)
-    this.buildFace(
+    buildFace.call(
+      this,
       positions,
       normals,
       uvs,
       indices,
-      halfWidth,
-      halfHeight,
+      points,
+      triangles,
       halfThickness,
       [0, 0, 1] // Normal pointing +Z
     );
+    const frontEnd = indices.length;
 
     // Build back face (facing -Z)
-    this.buildFace(
+    buildFace.call(
+      this,
       positions,
       normals,
       uvs,
       indices,
-      halfWidth,
-      halfHeight,
+      points,
+      triangles,
       -halfThickness,
       [0, 0, -1] // Normal pointing -Z
     );
+    const backEnd = indices.length;
 
-    // Build side faces (thickness extrusion)
-    this.buildSideFaces(
-      positions,
-      normals,
-      uvs,
-      indices,
-      halfWidth,
-      halfHeight,
-      halfThickness
-    );
+    // Build side walls (thickness extrusion) around the outline and every hole
+    for (const contour of [contours.outer, ...contours.holes]) {
+      this.buildSideFaces(positions, normals, uvs, indices, contour, halfThickness);
+    }
 
     // Set geometry attributes
     this._geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
     this._geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
     this._geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
     this._geometry.setIndex(indices);
+
+    // Face groups: front, back, edge
+    this._geometry.addGroup(0, frontEnd, CARD_FACE_MATERIAL_INDEX.front);
+    this._geometry.addGroup(frontEnd, backEnd - frontEnd, CARD_FACE_MATERIAL_INDEX.back);
+    this._geometry.addGroup(backEnd, indices.length - backEnd, CARD_FACE_MATERIAL_INDEX.edge);
     
     // Compute bounding volumes
     this._geometry.computeBoundingBox();
@@ -115,217 +282,278 @@ export class CardGeometry {
   }
 
   /**
-   * Build a face (front or back) with rounded corners
-   * UVs are in 0-1 range, scaled to match card dimensions for artwork accuracy
+   * Outline contours at the current card size, centred on the origin, with the cutouts as holes
+   * A custom outline is stretched so its bounding box matches width x height (cutouts keep their size)
+   */
+  private getContours(): OutlineContours {
+    const contours = this.getOutlineContours();
+    const outlineHoles = contours.holes.length;
+    addCutouts(contours, this.cutouts, this.curveTolerance);
+    this._cutoutCount = contours.holes.length - outlineHoles;
+    this._contours = contours;
+    return contours;
+  }
+
+  /**
+   * Contours of the card outline alone (standard or die-cut)
+   */
+  private getOutlineContours(): OutlineContours {
+    if (!this.outline) {
+      return extractContours(cardOutline(this.width, this.height, this.corners), this.curveTolerance);
+    }
+
+    const contours = extractContours(this.outline, this.curveTolerance);
+    const box = new THREE.Box2().setFromPoints(contours.outer);
+    const size = box.getSize(new THREE.Vector2());
+    const centre = box.getCenter(new THREE.Vector2());
+    const scaleX = this.width / size.x;
+    const scaleY = this.height / size.y;
+
+    for (const contour of [contours.outer, ...contours.holes]) {
+      contour.forEach(point => point.set((point.x - centre.x) * scaleX, (point.y - centre.y) * scaleY));
+    }
+    return contours;
+  }
+
+  /**
+   * Build a face (front or back) from the triangulated outline
+   * UVs are in 0-1 range over the card's bounding box, so artwork maps the same for any outline
+   * The back face mirrors U so its artwork reads correctly when the card is turned over
    */
   private buildFace(
     positions: number[],
     normals: number[],
     uvs: number[],
     indices: number[],
-    halfWidth: number,
-    halfHeight: number,
+    points: THREE.Vector2[],
+    triangles: number[][],
     z: number,
     normal: [number, number, number]
   ): void {
     const startIndex = positions.length / 3;
-    const effectiveWidth = this.width;
-    const effectiveHeight = this.height;
-
-    // Generate outline points with rounded corners
-    const outlinePoints: Array<{ x: number; y: number; u: number; v: number }> = [];
-
-    // Top-right corner
-    for (let i = 0; i <= this.cornerSegments; i++) {
-      const angle = (Math.PI / 2) * (i / this.cornerSegments);
-      const x = halfWidth - this.cornerRadius + this.cornerRadius * Math.cos(angle);
-      const y = halfHeight - this.cornerRadius + this.cornerRadius * Math.sin(angle);
-      
-      // UV mapping: 0-1 range, scaled to card dimensions
-      // This ensures artwork always maps correctly regardless of card size
-      const u = (x + halfWidth) / effectiveWidth;
-      const v = (y + halfHeight) / effectiveHeight;
-      
-      outlinePoints.push({ x, y, u, v });
-    }
-
-    // Top-left corner
-    for (let i = 0; i <= this.cornerSegments; i++) {
-      const angle = (Math.PI / 2) * (i / this.cornerSegments) + Math.PI / 2;
-      const x = -halfWidth + this.cornerRadius + this.cornerRadius * Math.cos(angle);
-      const y = halfHeight - this.cornerRadius + this.cornerRadius * Math.sin(angle);
-      
-      const u = (x + halfWidth) / effectiveWidth;
-      const v = (y + halfHeight) / effectiveHeight;
-      
-      outlinePoints.push({ x, y, u, v });
-    }
 
-    // Bottom-left corner
-    for (let i = 0; i <= this.cornerSegments; i++) {
-      const angle = (Math.PI / 2) * (i / this.cornerSegments) + Math.PI;
-      const x = -halfWidth + this.cornerRadius + this.cornerRadius * Math.cos(angle);
-      const y = -halfHeight + this.cornerRadius + this.cornerRadius * Math.sin(angle);
-      
-      const u = (x + halfWidth) / effectiveWidth;
-      const v = (y + halfHeight) / effectiveHeight;
-      
-      outlinePoints.push({ x, y, u, v });
+    for (const point of points) {
+      this.pushFaceVertex(positions, normals, uvs, point, z, normal);
     }
 
-    // Bottom-right corner
-    for (let i = 0; i <= this.cornerSegments; i++) {
-      const angle = (Math.PI / 2) * (i / this.cornerSegments) + (3 * Math.PI) / 2;
-      const x = halfWidth - this.cornerRadius + this.cornerRadius * Math.cos(angle);
-      const y = -halfHeight + this.cornerRadius + this.cornerRadius * Math.sin(angle);
-      
-      const u = (x + halfWidth) / effectiveWidth;
-      const v = (y + halfHeight) / effectiveHeight;
-      
-      outlinePoints.push({ x, y, u, v });
-    }
-
-    // Add center vertex
-    positions.push(0, 0, z);
-    normals.push(...normal);
-    uvs.push(0.5, 0.5); // Center UV
-
-    // Add outline vertices
-    for (const point of outlinePoints) {
-      positions.push(point.x, point.y, z);
-      normals.push(...normal);
-      uvs.push(point.u, point.v);
-    }
-
-    // Create triangles from center to outline (fan triangulation)
-    const numOutlineVerts = outlinePoints.length;
-    for (let i = 0; i < numOutlineVerts; i++) {
-      const next = (i + 1) % numOutlineVerts;
-      indices.push(
-        startIndex, // Center vertex
-        startIndex + 1 + i, // Current outline vertex
-        startIndex + 1 + next // Next outline vertex
-      );
+    for (const [a, b, c] of triangles) {
+      this.pushFaceTriangle(indices, points[a], points[b], points[c], startIndex + a, startIndex + b, startIndex + c, normal);
     }
   }
 
   /**
-   * Build side faces (thickness extrusion)
+   * Build a face as a regular grid clipped to the outline
+   * Each outline triangle is cut along the grid lines, so interior vertices lie on the grid
+   * and every part of the face can be displaced (emboss displacement)
    */
-  private buildSideFaces(
+  private buildGridFace(
     positions: number[],
     normals: number[],
     uvs: number[],
     indices: number[],
-    halfWidth: number,
-    halfHeight: number,
-    halfThickness: number
+    points: THREE.Vector2[],
+    triangles: number[][],
+    z: number,
+    normal: [number, number, number]
   ): void {
-    const startIndex = positions.length / 3;
-
-    // Generate front and back outline points
-    const frontOutline: Array<{ x: number; y: number }> = [];
-    const backOutline: Array<{ x: number; y: number }> = [];
-
-    // Top-right corner
-    for (let i = 0; i <= this.cornerSegments; i++) {
-      const angle = (Math.PI / 2) * (i / this.cornerSegments);
-      const x = halfWidth - this.cornerRadius + this.cornerRadius * Math.cos(angle);
-      const y = halfHeight - this.cornerRadius + this.cornerRadius * Math.sin(angle);
-      frontOutline.push({ x, y });
-      backOutline.push({ x, y });
+    const columns = this.gridSegments(this.width);
+    const rows = this.gridSegments(this.height);
+    const cellWidth = this.width / columns;
+    const cellHeight = this.height / rows;
+    const originX = -this.width / 2;
+    const originY = -this.height / 2;
+
+    // Clipped pieces of neighbouring triangles share vertices on their common edges
+    const vertexIds = new Map<string, number>();
+    const vertexId = (point: THREE.Vector2): number => {
+      const key = `${Math.round(point.x * 1e5)},${Math.round(point.y * 1e5)}`;
+      let id = vertexIds.get(key);
+      if (id === undefined) {
+        id = positions.length / 3;
+        this.pushFaceVertex(positions, normals, uvs, point, z, normal);
+        vertexIds.set(key, id);
+      }
+      return id;
+    };
+
+    const cellRange = (min: number, max: number, origin: number, size: number, count: number) => [
+      THREE.MathUtils.clamp(Math.floor((min - origin) / size), 0, count - 1),
+      THREE.MathUtils.clamp(Math.ceil((max - origin) / size) - 1, 0, count - 1)
+    ];
+
+    for (const triangle of triangles) {
+      const polygon = triangle.map(index => points[index]);
+      const ys = polygon.map(point => point.y);
+      const [rowStart, rowEnd] = cellRange(Math.min(...ys), Math.max(...ys), originY, cellHeight, rows);
+
+      for (let j = rowStart; j <= rowEnd; j++) {
+        const bottom = j === 0 ? -Infinity : originY + j * cellHeight;
+        const top = j === rows - 1 ? Infinity : originY + (j + 1) * cellHeight;
+        const band = clipPolygon(clipPolygon(polygon, 'y', bottom, 1), 'y', top, -1);
+        if (band.length < 3) {
+          continue;
+        }
+
+        const xs = band.map(point => point.x);
+        const [columnStart, columnEnd] = cellRange(Math.min(...xs), Math.max(...xs), originX, cellWidth, columns);
+
+        for (let i = columnStart; i <= columnEnd; i++) {
+          const left = i === 0 ? -Infinity : originX + i * cellWidth;
+          const right = i === columns - 1 ? Infinity : originX + (i + 1) * cellWidth;
+          const cell = clipPolygon(clipPolygon(band, 'x', left, 1), 'x', right, -1);
+
+          // Clipped pieces are convex: fan-triangulate
+          for (let k = 1; k + 1 < cell.length; k++) {
+            const ids = [vertexId(cell[0]), vertexId(cell[k]), vertexId(cell[k + 1])];
+            if (ids[0] !== ids[1] && ids[1] !== ids[2] && ids[0] !== ids[2]) {
+              this.pushFaceTriangle(indices, cell[0], cell[k], cell[k + 1], ids[0], ids[1], ids[2], normal);
+            }
+          }
+        }
+      }
     }
+  }
 
-    // Top-left corner
-    for (let i = 0; i <= this.cornerSegments; i++) {
-      const angle = (Math.PI / 2) * (i / this.cornerSegments) + Math.PI / 2;
-      const x = -halfWidth + this.cornerRadius + this.cornerRadius * Math.cos(angle);
-      const y = halfHeight - this.cornerRadius + this.cornerRadius * Math.sin(angle);
-      frontOutline.push({ x, y });
-      backOutline.push({ x, y });
-    }
+  /**
+   * Add a face vertex with its bounding-box UV (U mirrored on the back face)
+   */
+  private pushFaceVertex(
+    positions: number[],
+    normals: number[],
+    uvs: number[],
+    point: THREE.Vector2,
+    z: number,
+    normal: [number, number, number]
+  ): void {
+    const u = (point.x + this.width / 2) / this.width;
+    positions.push(point.x, point.y, z);
+    normals.push(...normal);
+    uvs.push(normal[2] > 0 ? u : 1 - u, (point.y + this.height / 2) / this.height);
+  }
 
-    // Bottom-left corner
-    for (let i = 0; i <= this.cornerSegments; i++) {
-      const angle = (Math.PI / 2) * (i / this.cornerSegments) + Math.PI;
-      const x = -halfWidth + this.cornerRadius + this.cornerRadius * Math.cos(angle);
-      const y = -halfHeight + this.cornerRadius + this.cornerRadius * Math.sin(angle);
-      frontOutline.push({ x, y });
-      backOutline.push({ x, y });
+  /**
+   * Add a face triangle, wound to face along the face normal
+   * Degenerate (zero-area) triangles are skipped
+   */
+  private pushFaceTriangle(
+    indices: number[],
+    pa: THREE.Vector2,
+    pb: THREE.Vector2,
+    pc: THREE.Vector2,
+    a: number,
+    b: number,
+    c: number,
+    normal: [number, number, number]
+  ): void {
+    const cross = (pb.x - pa.x) * (pc.y - pa.y) - (pb.y - pa.y) * (pc.x - pa.x);
+    if (Math.abs(cross) < 1e-10) {
+      return;
     }
-
-    // Bottom-right corner
-    for (let i = 0; i <= this.cornerSegments; i++) {
-      const angle = (Math.PI / 2) * (i / this.cornerSegments) + (3 * Math.PI) / 2;
-      const x = halfWidth - this.cornerRadius + this.cornerRadius * Math.cos(angle);
-      const y = -halfHeight + this.cornerRadius + this.cornerRadius * Math.sin(angle);
-      frontOutline.push({ x, y });
-      backOutline.push({ x, y });
+    if (cross > 0 === normal[2] > 0) {
+      indices.push(a, b, c);
+    } else {
+      indices.push(a, c, b);
     }
+  }
 
-    const numPoints = frontOutline.length;
-    const perimeter = this.calculatePerimeter(halfWidth, halfHeight);
-
-    // Add vertices for side faces
-    for (let i = 0; i < numPoints; i++) {
-      const front = frontOutline[i];
-      const back = backOutline[i];
-      const next = (i + 1) % numPoints;
-
-      // Calculate side normal (perpendicular to edge, pointing outward)
-      const dx = frontOutline[next].x - frontOutline[i].x;
-      const dy = frontOutline[next].y - frontOutline[i].y;
-      const len = Math.sqrt(dx * dx + dy * dy);
-      const nx = len > 0.0001 ? -dy / len : 0;
-      const ny = len > 0.0001 ? dx / len : 0;
-
-      // Calculate UV coordinate along perimeter
-      const u = this.calculatePerimeterDistance(frontOutline, i) / perimeter;
-      const vFront = 0;
-      const vBack = 1;
-
-      // Front edge vertex
-      positions.push(front.x, front.y, halfThickness);
-      normals.push(nx, ny, 0);
-      uvs.push(u, vFront);
-
-      // Back edge vertex
-      positions.push(back.x, back.y, -halfThickness);
-      normals.push(nx, ny, 0);
-      uvs.push(u, vBack);
-    }
+  /**
+   * Normalise and validate a corner argument: a single radius means four round corners
+   * Specs are copied so later changes by the caller do not leak into the geometry
+   */
+  private static toCornerSpecs(corners: number | CornerSpecs): CornerSpecs {
+    const specs = typeof corners === 'number' ? uniformCorners(corners) : corners;
+    validateCorners(specs);
+    return {
+      topRight: { ...specs.topRight },
+      topLeft: { ...specs.topLeft },
+      bottomLeft: { ...specs.bottomLeft },
+      bottomRight: { ...specs.bottomRight }
+    };
+  }
 
-    // Create side face quads (two triangles per quad)
-    for (let i = 0; i < numPoints; i++) {
-      const next = (i + 1) % numPoints;
-      const base = startIndex + i * 2;
+  /**
+   * Validate and copy cutouts so later changes by the caller do not leak into the geometry
+   */
+  private static copyCutouts(cutouts: Cutout[]): Cutout[] {
+    cutouts.forEach(validateCutout);
+    return cutouts.map(cutout => ({ ...cutout }));
+  }
 
-      // Quad as two triangles
-      indices.push(base, base + 1, base + 2);
-      indices.push(base + 1, base + 3, base + 2);
+  /**
+   * Validate a thickness exaggeration factor
+   */
+  private static validateExaggeration(factor: number): number {
+    if (!(factor >= 1)) {
+      throw new Error(`Thickness exaggeration must be at least 1: ${factor}`);
     }
+    return factor;
   }
 
   /**
-   * Calculate total perimeter of the card outline
+   * Number of grid segments along a dimension (adaptive to size, capped)
    */
-  private calculatePerimeter(halfWidth: number, halfHeight: number): number {
-    const straightSides = 2 * (this.width - 2 * this.cornerRadius) + 2 * (this.height - 2 * this.cornerRadius);
-    const cornerArcs = 2 * Math.PI * this.cornerRadius; // Full circle for all 4 corners
-    return straightSides + cornerArcs;
+  private gridSegments(size: number): number {
+    return Math.min(MAX_GRID_SEGMENTS, Math.max(1, Math.ceil(size / this.gridCellSize)));
   }
 
   /**
-   * Calculate cumulative distance along perimeter up to point index
+   * Build side faces (thickness extrusion) along one contour
+   * U runs along the contour's perimeter (0-1), V across the thickness (0 = front, 1 = back).
+   * Normals face away from the material (outwards on the outline, into holes), and are
+   * smoothed across gentle turns but kept sharp at corners.
    */
-  private calculatePerimeterDistance(outline: Array<{ x: number; y: number }>, index: number): number {
+  private buildSideFaces(
+    positions: number[],
+    normals: number[],
+    uvs: number[],
+    indices: number[],
+    contour: THREE.Vector2[],
+    halfThickness: number
+  ): void {
+    const count = contour.length;
+    const segmentNormals: THREE.Vector2[] = [];
+    const segmentLengths: number[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const direction = contour[(i + 1) % count].clone().sub(contour[i]);
+      const length = direction.length();
+      segmentLengths.push(length);
+      segmentNormals.push(length > 0 ? new THREE.Vector2(direction.y, -direction.x).divideScalar(length) : new THREE.Vector2());
+    }
+
+    const perimeter = segmentLengths.reduce((sum, length) => sum + length, 0);
+    const smoothLimit = Math.cos(SIDE_SMOOTHING_ANGLE);
+
+    // Normal of a segment at one of its ends, blended with the neighbouring segment on gentle turns
+    const endNormal = (segment: number, neighbour: number) => {
+      const own = segmentNormals[segment];
+      const other = segmentNormals[(neighbour + count) % count];
+      return own.dot(other) >= smoothLimit ? own.clone().add(other).normalize() : own;
+    };
+
     let distance = 0;
-    for (let i = 0; i < index; i++) {
-      const dx = outline[i + 1].x - outline[i].x;
-      const dy = outline[i + 1].y - outline[i].y;
-      distance += Math.sqrt(dx * dx + dy * dy);
+    for (let i = 0; i < count; i++) {
+      const startIndex = positions.length / 3;
+      const start = contour[i];
+      const end = contour[(i + 1) % count];
+      const startNormal = endNormal(i, i - 1);
+      const endNormalVector = endNormal(i, i + 1);
+
+      const uStart = distance / perimeter;
+      distance += segmentLengths[i];
+      const uEnd = i === count - 1 ? 1 : distance / perimeter;
+
+      // Front and back vertices at the segment start, then at its end
+      positions.push(start.x, start.y, halfThickness, start.x, start.y, -halfThickness);
+      positions.push(end.x, end.y, halfThickness, end.x, end.y, -halfThickness);
+      normals.push(startNormal.x, startNormal.y, 0, startNormal.x, startNormal.y, 0);
+      normals.push(endNormalVector.x, endNormalVector.y, 0, endNormalVector.x, endNormalVector.y, 0);
+      uvs.push(uStart, 0, uStart, 1, uEnd, 0, uEnd, 1);
+
+      // Quad as two triangles
+      indices.push(startIndex, startIndex + 1, startIndex + 2);
+      indices.push(startIndex + 1, startIndex + 3, startIndex + 2);
     }
-    return distance;
   }
 
   /**
@@ -337,3 +565,41 @@ export class CardGeometry {
     }
   }
 }
+
+/**
+ * Clip a convex polygon against an axis-aligned half-plane (Sutherland-Hodgman)
+ * keep = 1 keeps coordinates >= value, keep = -1 keeps coordinates <= value.
+ * Crossing points are computed from the endpoints in a fixed order, so both triangles
+ * sharing an edge produce bit-identical points.
+ */
+function clipPolygon(polygon: THREE.Vector2[], axis: 'x' | 'y', value: number, keep: 1 | -1): THREE.Vector2[] {
+  if (!Number.isFinite(value)) {
+    return polygon;
+  }
+
+  const inside = (point: THREE.Vector2) => keep * (point[axis] - value) >= 0;
+  const crossing = (p: THREE.Vector2, q: THREE.Vector2) => {
+    const [a, b] = p.x < q.x || (p.x === q.x && p.y < q.y) ? [p, q] : [q, p];
+    const t = (value - a[axis]) / (b[axis] - a[axis]);
+    const point = a.clone().lerp(b, t);
+    point[axis] = value;
+    return point;
+  };
+
+  const result: THREE.Vector2[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const current = polygon[i];
+    const previous = polygon[(i + polygon.length - 1) % polygon.length];
+
+    if (inside(current)) {
+      if (!inside(previous)) {
+        result.push(crossing(previous, current));
+      }
+      result.push(current);
+    } else if (inside(previous)) {
+      result.push(crossing(previous, current));
+    }
+  }
+
+  return result.filter((point, i) => !point.equals(result[(i + result.length - 1) % result.length]) || result.length === 1);
+}
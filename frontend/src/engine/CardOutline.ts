@@ -0,0 +1,437 @@
+import * as THREE from 'three';
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+
+// Points closer than this (mm) are merged when flattening outlines
+const POINT_TOLERANCE = 1e-6;
+
+// Offset corners sharper than this keep a miter of at most 1 / MIN_MITER_COSINE times the offset
+const MIN_MITER_COSINE = 0.25;
+
+/**
+ * Closed polylines of a card outline, in mm
+ * outer is counter-clockwise, holes are clockwise (both seen from the front, +Z),
+ * so the right-hand side of every contour faces away from the card material
+ */
+export interface OutlineContours {
+  outer: THREE.Vector2[];
+  holes: THREE.Vector2[][];
+}
+
+/**
+ * Corner shapes
+ * square: sharp corner; round: quarter circle; chamfer: straight 45° cut;
+ * notch: inverted quarter circle cut into the card
+ */
+export type CornerStyle = 'square' | 'round' | 'chamfer' | 'notch';
+
+/**
+ * Style and size of one corner
+ * radius is the distance in mm the corner cuts into each adjoining side (ignored for square)
+ */
+export interface CornerSpec {
+  style: CornerStyle;
+  radius: number;
+}
+
+export type CornerName = 'topRight' | 'topLeft' | 'bottomLeft' | 'bottomRight';
+
+export type CornerSpecs = Record<CornerName, CornerSpec>;
+
+// Corners in outline order (counter-clockwise, starting after the bottom-right corner)
+const CORNER_ORDER: CornerName[] = ['topRight', 'topLeft', 'bottomLeft', 'bottomRight'];
+
+const CORNER_STYLES: CornerStyle[] = ['square', 'round', 'chamfer', 'notch'];
+
+/**
+ * The same corner on all four corners
+ */
+export function uniformCorners(radius: number, style: CornerStyle = 'round'): CornerSpecs {
+  return {
+    topRight: { style, radius },
+    topLeft: { style, radius },
+    bottomLeft: { style, radius },
+    bottomRight: { style, radius }
+  };
+}
+
+/**
+ * Throw if a corner spec cannot be built (unknown style, non-numeric radius)
+ */
+export function validateCorners(corners: CornerSpecs): void {
+  for (const name of CORNER_ORDER) {
+    const corner = corners[name];
+    if (!corner || !CORNER_STYLES.includes(corner.style)) {
+      throw new Error(`Unknown corner style for ${name}: ${corner?.style}`);
+    }
+    if (!Number.isFinite(corner.radius)) {
+      throw new Error(`Corner radius for ${name} must be a number (got ${corner.radius})`);
+    }
+  }
+}
+
+/**
+ * Validate corner specs and clamp them to a card size
+ * Negative radii become 0, square corners get radius 0, and if two corners sharing a side
+ * would overlap all radii are scaled down together (as CSS does with border-radius)
+ * so the card keeps its proportions.
+ *
+ * @param width - Card width in mm
+ * @param height - Card height in mm
+ * @param corners - Requested corners
+ * @returns Corners that fit the card
+ */
+export function resolveCorners(width: number, height: number, corners: CornerSpecs): CornerSpecs {
+  validateCorners(corners);
+
+  const resolved = {} as CornerSpecs;
+  for (const name of CORNER_ORDER) {
+    const { style, radius } = corners[name];
+    resolved[name] = { style, radius: style === 'square' ? 0 : Math.max(0, radius) };
+  }
+
+  const r = (name: CornerName) => resolved[name].radius;
+  const sides: Array<[number, number]> = [
+    [height, r('topRight') + r('bottomRight')],
+    [width, r('topRight') + r('topLeft')],
+    [height, r('topLeft') + r('bottomLeft')],
+    [width, r('bottomLeft') + r('bottomRight')]
+  ];
+  const scale = Math.min(1, ...sides.map(([length, used]) => (used > 0 ? length / used : 1)));
+
+  if (scale < 1) {
+    console.warn(`Corner radii do not fit a ${width} x ${height} mm card, scaled by ${scale.toFixed(3)}`);
+    for (const name of CORNER_ORDER) {
+      resolved[name].radius *= scale;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Build the standard card outline: a rectangle centred on the origin with styled corners
+ *
+ * @param width - Width in mm
+ * @param height - Height in mm
+ * @param corners - Corner specs (validated and clamped, see resolveCorners)
+ */
+export function cardOutline(width: number, height: number, corners: CornerSpecs): THREE.Shape {
+  const halfWidth = width / 2;
+  const halfHeight = height / 2;
+  const resolved = resolveCorners(width, height, corners);
+
+  // Corner position and the start angle of its quadrant (the arc a round corner sweeps)
+  const geometry: Record<CornerName, { x: number; y: number; angle: number }> = {
+    topRight: { x: halfWidth, y: halfHeight, angle: 0 },
+    topLeft: { x: -halfWidth, y: halfHeight, angle: Math.PI / 2 },
+    bottomLeft: { x: -halfWidth, y: -halfHeight, angle: Math.PI },
+    bottomRight: { x: halfWidth, y: -halfHeight, angle: (3 * Math.PI) / 2 }
+  };
+
+  // Where the outline enters a corner (on the incoming side) and leaves it (on the outgoing side)
+  const entry = (name: CornerName, r: number) => {
+    const { x, y, angle } = geometry[name];
+    return new THREE.Vector2(x + r * Math.cos(angle - Math.PI / 2), y + r * Math.sin(angle - Math.PI / 2));
+  };
+  const exit = (name: CornerName, r: number) => {
+    const { x, y, angle } = geometry[name];
+    return new THREE.Vector2(x + r * Math.cos(angle + Math.PI), y + r * Math.sin(angle + Math.PI));
+  };
+
+  const shape = new THREE.Shape();
+  const start = exit('bottomRight', resolved.bottomRight.radius);
+  shape.moveTo(start.x, start.y);
+
+  for (const name of CORNER_ORDER) {
+    const { style, radius: r } = resolved[name];
+    const { x, y, angle } = geometry[name];
+
+    if (style === 'square' || r <= 0) {
+      shape.lineTo(x, y);
+      continue;
+    }
+
+    const from = entry(name, r);
+    shape.lineTo(from.x, from.y);
+
+    if (style === 'round') {
+      // Quarter circle centred inside the card
+      const cx = x - r * Math.cos(angle) - r * Math.cos(angle + Math.PI / 2);
+      const cy = y - r * Math.sin(angle) - r * Math.sin(angle + Math.PI / 2);
+      shape.absarc(cx, cy, r, angle, angle + Math.PI / 2, false);
+    } else if (style === 'notch') {
+      // Quarter circle centred on the corner, cutting into the card
+      shape.absarc(x, y, r, angle - Math.PI / 2, angle - Math.PI, true);
+    } else {
+      const to = exit(name, r);
+      shape.lineTo(to.x, to.y);
+    }
+  }
+
+  shape.closePath();
+  return shape;
+}
+
+/**
+ * Build a die-cut outline from an SVG path (the `d` attribute)
+ * The path is flipped to Y-up, centred on the origin and scaled uniformly to the given width.
+ * Sub-paths inside the outline become holes (per the SVG fill rule); if the path describes
+ * several separate pieces only the largest is kept, since a card is cut in one piece.
+ *
+ * @param d - SVG path data, e.g. "M 0 0 C ..."
+ * @param width - Width of the cut card in mm
+ */
+export function outlineFromSVGPath(d: string, width: number): THREE.Shape {
+  const outline = largestSVGShape(d, '');
+
+  // SVG is Y-down: flip, then centre and scale (applied by SVGLoader so arcs stay exact)
+  const box = new THREE.Box2().setFromPoints(outline.getPoints());
+  const size = box.getSize(new THREE.Vector2());
+  const centre = box.getCenter(new THREE.Vector2());
+  if (size.x <= 0 || size.y <= 0) {
+    throw new Error('SVG path outline has no area');
+  }
+
+  const scale = width / size.x;
+  return largestSVGShape(d, `matrix(${scale} 0 0 ${-scale} ${-centre.x * scale} ${centre.y * scale})`);
+}
+
+/**
+ * Parse an SVG path into shapes and pick the one with the largest area
+ */
+function largestSVGShape(d: string, transform: string): THREE.Shape {
+  const attributes = `d="${d.replace(/"/g, '')}"` + (transform ? ` transform="${transform}"` : '');
+  const path = `<path ${attributes}/>`;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg">${path}</svg>`;
+  const shapes = new SVGLoader().parse(svg).paths.flatMap(svgPath => SVGLoader.createShapes(svgPath));
+
+  if (shapes.length === 0) {
+    throw new Error('SVG path does not describe a closed outline');
+  }
+  if (shapes.length > 1 && transform === '') {
+    console.warn(`SVG path has ${shapes.length} separate pieces, using the largest`);
+  }
+
+  const area = (shape: THREE.Shape) => Math.abs(THREE.ShapeUtils.area(shape.getPoints()));
+  return shapes.reduce((largest, shape) => (area(shape) > area(largest) ? shape : largest));
+}
+
+/**
+ * Flatten a shape into contours, oriented as described by OutlineContours
+ * Curves are subdivided by length, so small corner arcs and large die-cut curves are equally smooth
+ *
+ * @param shape - Outline with optional holes
+ * @param maxSegmentLength - Longest chord used to approximate a curve, in mm
+ */
+export function extractContours(shape: THREE.Shape, maxSegmentLength: number): OutlineContours {
+  const contour = (path: THREE.Path, clockwise: boolean) => {
+    const points: THREE.Vector2[] = [];
+    for (const curve of path.curves) {
+      const divisions = curve instanceof THREE.LineCurve
+        ? 1
+        : Math.max(2, Math.ceil(curve.getLength() / maxSegmentLength));
+      points.push(...curve.getPoints(divisions));
+    }
+
+    // Drop repeated points (curve joins, closing point) so no wall segment has zero length
+    const cleaned = points.filter((point, i) => i === 0 || point.distanceTo(points[i - 1]) > POINT_TOLERANCE);
+    while (cleaned.length > 1 && cleaned[0].distanceTo(cleaned[cleaned.length - 1]) <= POINT_TOLERANCE) {
+      cleaned.pop();
+    }
+    if (THREE.ShapeUtils.isClockWise(cleaned) !== clockwise) {
+      cleaned.reverse();
+    }
+    return cleaned;
+  };
+
+  return {
+    outer: contour(shape, false),
+    holes: shape.holes.map(hole => contour(hole, true)).filter(hole => hole.length >= 3)
+  };
+}
+
+/**
+ * A hole punched or drilled through the card
+ * x, y: hole centre in mm from the card centre; rotation in degrees, counter-clockwise
+ * circle: drilled hole; slot: rounded (euro) slot, length along its axis and width across;
+ * roundedRect: window with rounded corners
+ */
+export type Cutout =
+  | { shape: 'circle'; x: number; y: number; diameter: number }
+  | { shape: 'slot'; x: number; y: number; length: number; width: number; rotation?: number }
+  | { shape: 'roundedRect'; x: number; y: number; width: number; height: number; cornerRadius: number; rotation?: number };
+
+/**
+ * Throw if a cutout has an unknown shape, non-positive size or a corner radius that does not fit
+ */
+export function validateCutout(cutout: Cutout): void {
+  let sizes: number[];
+  switch (cutout.shape) {
+    case 'circle':
+      sizes = [cutout.diameter];
+      break;
+    case 'slot':
+      sizes = [cutout.length, cutout.width];
+      break;
+    case 'roundedRect':
+      sizes = [cutout.width, cutout.height];
+      break;
+    default:
+      throw new Error(`Unknown cutout shape: ${(cutout as { shape: string }).shape}`);
+  }
+  if (![cutout.x, cutout.y].every(Number.isFinite) || !sizes.every(value => Number.isFinite(value) && value > 0)) {
+    throw new Error(`Invalid ${cutout.shape} cutout: position must be finite and sizes positive`);
+  }
+  if (cutout.shape === 'roundedRect') {
+    const { cornerRadius } = cutout;
+    if (!Number.isFinite(cornerRadius) || cornerRadius < 0 || cornerRadius > Math.min(cutout.width, cutout.height) / 2) {
+      throw new Error(`Invalid roundedRect cutout: corner radius must be 0 to half the shorter side (got ${cornerRadius})`);
+    }
+  }
+}
+
+/**
+ * Flatten a cutout into a clockwise contour (a hole, see OutlineContours)
+ * Every cutout is a card outline with round corners: a circle is a square with full-radius corners
+ *
+ * @param cutout - Cutout in mm
+ * @param maxSegmentLength - Longest chord used to approximate curves, in mm
+ */
+export function cutoutContour(cutout: Cutout, maxSegmentLength: number): THREE.Vector2[] {
+  validateCutout(cutout);
+
+  let shape: THREE.Shape;
+  let rotation = 0;
+  if (cutout.shape === 'circle') {
+    shape = cardOutline(cutout.diameter, cutout.diameter, uniformCorners(cutout.diameter / 2));
+  } else if (cutout.shape === 'slot') {
+    const length = Math.max(cutout.length, cutout.width);
+    shape = cardOutline(length, cutout.width, uniformCorners(cutout.width / 2));
+    rotation = cutout.rotation ?? 0;
+  } else {
+    shape = cardOutline(cutout.width, cutout.height, uniformCorners(cutout.cornerRadius));
+    rotation = cutout.rotation ?? 0;
+  }
+
+  const angle = THREE.MathUtils.degToRad(rotation);
+  const centre = new THREE.Vector2(cutout.x, cutout.y);
+  return extractContours(shape, maxSegmentLength).outer
+    .map(point => point.rotateAround(new THREE.Vector2(), angle).add(centre))
+    .reverse();
+}
+
+/**
+ * Add cutouts to outline contours as holes
+ * A cutout that crosses the card edge or overlaps another hole would break the mesh,
+ * so it is skipped with a warning.
+ *
+ * @param contours - Outline to cut (modified in place)
+ * @param cutouts - Cutouts in mm
+ * @param maxSegmentLength - Longest chord used to approximate curves, in mm
+ */
+export function addCutouts(contours: OutlineContours, cutouts: readonly Cutout[], maxSegmentLength: number): OutlineContours {
+  cutouts.forEach((cutout, index) => {
+    const hole = cutoutContour(cutout, maxSegmentLength);
+
+    // Straight edges are flattened to their end points, so crossing slots need the edge test
+    const insideCard = hole.every(point => containsPoint(contours.outer, point)) && !contoursCross(contours.outer, hole);
+    const overlaps = contours.holes.some(other =>
+      hole.some(point => containsPoint(other, point)) || other.some(point => containsPoint(hole, point)) || contoursCross(other, hole)
+    );
+
+    if (!insideCard || overlaps) {
+      console.warn(`Cutout ${index} (${cutout.shape}) ${insideCard ? 'overlaps another hole' : 'crosses the card edge'}, skipped`);
+      return;
+    }
+    contours.holes.push(hole);
+  });
+
+  return contours;
+}
+
+/**
+ * Offset a contour away from the card material (negative distance: into the material)
+ * Works for the outer outline and for holes alike, since both keep the material on their left.
+ * Vertices move along the corner bisector with a limited miter, which is exact for straight edges
+ * and flattened curves; insetting a tight concave feature can fold over, so use it for guides only.
+ *
+ * @param contour - Contour in mm (orientation as in OutlineContours)
+ * @param distance - Offset in mm
+ */
+export function offsetContour(contour: readonly THREE.Vector2[], distance: number): THREE.Vector2[] {
+  const count = contour.length;
+
+  return contour.map((point, i) => {
+    const incoming = outwardNormal(contour[(i + count - 1) % count], point);
+    const outgoing = outwardNormal(point, contour[(i + 1) % count]);
+    const bisector = incoming.clone().add(outgoing);
+
+    if (bisector.lengthSq() < POINT_TOLERANCE) {
+      return point.clone().addScaledVector(outgoing, distance);
+    }
+
+    bisector.normalize();
+    const miter = 1 / Math.max(bisector.dot(outgoing), MIN_MITER_COSINE);
+    return point.clone().addScaledVector(bisector, distance * miter);
+  });
+}
+
+/**
+ * Unit normal on the right-hand side of a segment (away from the material, see OutlineContours)
+ */
+function outwardNormal(from: THREE.Vector2, to: THREE.Vector2): THREE.Vector2 {
+  return new THREE.Vector2(to.y - from.y, from.x - to.x).normalize();
+}
+
+/**
+ * Point-in-polygon test (even-odd ray casting)
+ */
+function containsPoint(polygon: THREE.Vector2[], point: THREE.Vector2): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether any edge of one closed contour touches or crosses an edge of the other
+ */
+function contoursCross(a: THREE.Vector2[], b: THREE.Vector2[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (segmentsIntersect(a[i], a[(i + 1) % a.length], b[j], b[(j + 1) % b.length])) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Segment intersection test (orientation signs; touching and collinear overlap count)
+ */
+function segmentsIntersect(p1: THREE.Vector2, p2: THREE.Vector2, q1: THREE.Vector2, q2: THREE.Vector2): boolean {
+  const side = (a: THREE.Vector2, b: THREE.Vector2, c: THREE.Vector2) => {
+    const cross = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+    return Math.abs(cross) <= POINT_TOLERANCE ? 0 : Math.sign(cross);
+  };
+  const onSegment = (a: THREE.Vector2, b: THREE.Vector2, c: THREE.Vector2) =>
+    Math.min(a.x, b.x) - POINT_TOLERANCE <= c.x && c.x <= Math.max(a.x, b.x) + POINT_TOLERANCE &&
+    Math.min(a.y, b.y) - POINT_TOLERANCE <= c.y && c.y <= Math.max(a.y, b.y) + POINT_TOLERANCE;
+
+  const d1 = side(q1, q2, p1);
+  const d2 = side(q1, q2, p2);
+  const d3 = side(p1, p2, q1);
+  const d4 = side(p1, p2, q2);
+
+  if (d1 * d2 < 0 && d3 * d4 < 0) {
+    return true;
+  }
+  return (d1 === 0 && onSegment(q1, q2, p1)) || (d2 === 0 && onSegment(q1, q2, p2)) ||
+    (d3 === 0 && onSegment(p1, p2, q1)) || (d4 === 0 && onSegment(p1, p2, q2));
+}
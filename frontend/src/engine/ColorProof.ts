@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+
+/**
+ * Soft-proof 3D LUT: sRGB-encoded artwork colour in, the colour the press reproduces out
+ * Stored like three's LUTCubeLoader output: a size x size² texture, red fastest, then green, then blue
+ * (so a loaded .cube file can be used directly).
+ */
+export interface ProofLUT {
+  title: string;
+  size: number;
+  domainMin: THREE.Vector3;
+  domainMax: THREE.Vector3;
+  texture: THREE.DataTexture;
+}
+
+/**
+ * Print proof settings
+ * gamutWarning: hatch artwork the press cannot reproduce; gamutTolerance: how far (sRGB-encoded,
+ * 0..√3) the proofed colour may move before it counts as out of gamut
+ */
+export interface PrintProofOptions {
+  lut: ProofLUT;
+  gamutWarning: boolean;
+  gamutTolerance: number;
+}
+
+export const DEFAULT_GAMUT_TOLERANCE = 0.15;
+
+/**
+ * Process inks of a generic coated press (sRGB) and the total area coverage the press allows
+ */
+const PRESS_INKS = {
+  cyan: 0x00a0e3,
+  magenta: 0xe5007d,
+  yellow: 0xffed00,
+  black: 0x1d1d1b
+};
+const TOTAL_INK_LIMIT = 3.0;
+
+/**
+ * Soft-proof LUT of a generic coated CMYK press, for when no profile LUT has been loaded
+ * Separates each colour into CMYK (full grey replacement, total ink limited), then overprints the
+ * process inks as filters on white paper. Saturated RGB primaries come out duller and darker, as on
+ * press; it approximates a press profile but does not replace one (load the press's .cube file).
+ *
+ * @param size - Lattice points per axis
+ */
+export function createPressProofLUT(size: number = 33): ProofLUT {
+  const inks = {
+    cyan: new THREE.Color(PRESS_INKS.cyan),
+    magenta: new THREE.Color(PRESS_INKS.magenta),
+    yellow: new THREE.Color(PRESS_INKS.yellow),
+    black: new THREE.Color(PRESS_INKS.black)
+  };
+
+  const data = new Uint8Array(size * size * size * 4);
+  const color = new THREE.Color();
+  const filter = new THREE.Color();
+  const encoded = { r: 0, g: 0, b: 0 };
+
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        // Lattice point (sRGB-encoded) to linear reflectance
+        color.setRGB(r / (size - 1), g / (size - 1), b / (size - 1), THREE.SRGBColorSpace);
+
+        const k = 1 - Math.max(color.r, color.g, color.b);
+        const chroma = k < 1 ? 1 / (1 - k) : 0;
+        let c = (1 - color.r - k) * chroma;
+        let m = (1 - color.g - k) * chroma;
+        let y = (1 - color.b - k) * chroma;
+
+        const total = c + m + y + k;
+        if (total > TOTAL_INK_LIMIT) {
+          const scale = (TOTAL_INK_LIMIT - k) / (c + m + y);
+          c *= scale;
+          m *= scale;
+          y *= scale;
+        }
+
+        // Each ink filters the light by its coverage
+        color.setRGB(1, 1, 1);
+        for (const [coverage, ink] of [[c, inks.cyan], [m, inks.magenta], [y, inks.yellow], [k, inks.black]] as const) {
+          color.multiply(filter.setRGB(1, 1, 1).lerp(ink, coverage));
+        }
+
+        color.getRGB(encoded, THREE.SRGBColorSpace);
+        const i = (r + g * size + b * size * size) * 4;
+        data[i] = Math.round(THREE.MathUtils.clamp(encoded.r, 0, 1) * 255);
+        data[i + 1] = Math.round(THREE.MathUtils.clamp(encoded.g, 0, 1) * 255);
+        data[i + 2] = Math.round(THREE.MathUtils.clamp(encoded.b, 0, 1) * 255);
+        data[i + 3] = 255;
+      }
+    }
+  }
+
+  const texture = new THREE.DataTexture(data, size, size * size);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.generateMipmaps = false;
+  texture.needsUpdate = true;
+
+  return {
+    title: 'Generic coated press (approximation)',
+    size,
+    domainMin: new THREE.Vector3(0, 0, 0),
+    domainMax: new THREE.Vector3(1, 1, 1),
+    texture
+  };
+}
@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { FoilPreset } from './FoilPresets.js';
+
+/**
+ * Maximum number of plies the edge shader can show (see edgeFragment.glsl)
+ */
+export const MAX_PLIES = 4;
+
+/**
+ * Laminated board constructions offered to customers
+ */
+export type PlyStockName = 'single' | 'duplex' | 'triplex';
+
+/**
+ * One ply of a laminated ("sandwich") stock, listed from the front face to the back
+ * weight is the ply's share of the total caliper (normalised over the stock)
+ */
+export interface StockPly {
+  color: THREE.Color;
+  weight: number;
+}
+
+/**
+ * How the card edge is finished
+ * stock: the bare plies show; painted: solid edge colour; foil: metallic foil edge
+ */
+export type EdgeFinish =
+  | { mode: 'stock' }
+  | { mode: 'painted'; color: THREE.Color }
+  | { mode: 'foil'; foil: FoilPreset };
+
+/**
+ * Shader index of each edge finish mode (see edgeFragment.glsl)
+ */
+export const EDGE_FINISH_MODE_INDEX: Record<EdgeFinish['mode'], number> = {
+  stock: 0,
+  painted: 1,
+  foil: 2
+};
+
+/**
+ * Default ply colours, front to back
+ */
+const PLY_STOCKS: Record<PlyStockName, number[]> = {
+  single: [0xf4f2ec],
+  duplex: [0xf4f2ec, 0x1a1a1a],
+  triplex: [0xf4f2ec, 0x1a1a1a, 0xf4f2ec]
+};
+
+/**
+ * Get the plies of a stock construction (equal caliper per ply)
+ *
+ * @param name - Stock construction
+ * @param colors - Ply colours front to back, overriding the defaults where given
+ */
+export function getPlyStock(name: PlyStockName, colors: (THREE.ColorRepresentation | undefined)[] = []): StockPly[] {
+  return PLY_STOCKS[name].map((fallback, index) => ({
+    color: new THREE.Color(colors[index] ?? fallback),
+    weight: 1
+  }));
+}
+
+/**
+ * Resolve ply thicknesses in mm for a total caliper
+ * The plies always add up to exactly the total thickness
+ *
+ * @param plies - Plies front to back
+ * @param totalThickness - Stock thickness in mm
+ */
+export function resolvePlyThicknesses(plies: readonly StockPly[], totalThickness: number): number[] {
+  validatePlies(plies);
+
+  const totalWeight = plies.reduce((sum, ply) => sum + ply.weight, 0);
+  const thicknesses = plies.map(ply => (ply.weight / totalWeight) * totalThickness);
+
+  // Give the rounding remainder to the last ply
+  const assigned = thicknesses.slice(0, -1).reduce((sum, value) => sum + value, 0);
+  thicknesses[thicknesses.length - 1] = totalThickness - assigned;
+
+  return thicknesses;
+}
+
+/**
+ * Throw if a ply list cannot be rendered
+ */
+export function validatePlies(plies: readonly StockPly[]): void {
+  if (plies.length === 0 || plies.length > MAX_PLIES) {
+    throw new Error(`A stock needs 1 to ${MAX_PLIES} plies (got ${plies.length})`);
+  }
+  if (plies.some(ply => !(ply.weight > 0))) {
+    throw new Error('Ply weights must be positive');
+  }
+}
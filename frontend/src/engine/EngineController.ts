@@ -2,6 +2,11 @@ import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { ResourceManager } from '../resources/ResourceManager.js';
 
+// Scratch vectors for the transparent sort
+const facingNormal = new THREE.Vector3();
+const toCamera = new THREE.Vector3();
+const objectPosition = new THREE.Vector3();
+
 /**
  * Engine Controller
  * Core rendering system - decoupled from business logic
@@ -16,6 +21,10 @@ export class EngineController {
   private animationId: number | null = null;
   private isInitialized: boolean = false;
 
+  // Environment (PMREM-filtered HDR, for image-based lighting in card materials)
+  private environment: THREE.Texture | null = null;
+  private environmentListeners: Array<(environment: THREE.Texture | null) => void> = [];
+
   // Lighting
   private keyLight: THREE.DirectionalLight | null = null;
   private rimLight: THREE.DirectionalLight | null = null;
@@ -47,6 +56,8 @@ export class EngineController {
     this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
     this.renderer.toneMappingExposure = 1.0;
     this.renderer.outputColorSpace = THREE.SRGBColorSpace;
+    this.renderer.setTransparentSort((a, b) => this.compareTransparent(a, b));
+    ResourceManager.setMaxAnisotropy(this.renderer.capabilities.getMaxAnisotropy());
 
     // Create scene
     this.scene = new THREE.Scene();
@@ -98,31 +109,79 @@ export class EngineController {
 
   /**
    * Set up lighting (key light + rim light)
+   * Intensities are physical (irradiance), as used by the card's PBR shading
    */
   private setupLighting(): void {
     // Ambient light for base illumination
-    this.ambientLight = new THREE.AmbientLight(0xffffff, 0.3);
+    this.ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
     this.scene.add(this.ambientLight);
 
     // Key light (main directional light)
-    this.keyLight = new THREE.DirectionalLight(0xffffff, 1.0);
+    this.keyLight = new THREE.DirectionalLight(0xffffff, 2.5);
     this.keyLight.position.set(50, 50, 50);
     this.scene.add(this.keyLight);
 
     // Rim light (back light for edge definition)
-    this.rimLight = new THREE.DirectionalLight(0xffffff, 0.5);
+    this.rimLight = new THREE.DirectionalLight(0xffffff, 1.2);
     this.rimLight.position.set(-50, 30, -50);
     this.scene.add(this.rimLight);
   }
 
+  /**
+   * Back-to-front order of transparent render items
+   * As three's default sort, but the groups of one mesh (the faces and edge of a see-through card)
+   * all share the object's depth: materials that declare a userData.facingNormal are ordered by it,
+   * faces turned away from the camera first, then the edge, then faces towards the camera.
+   */
+  private compareTransparent(a: THREE.RenderItem, b: THREE.RenderItem): number {
+    if (a.groupOrder !== b.groupOrder) {
+      return a.groupOrder - b.groupOrder;
+    }
+    if (a.renderOrder !== b.renderOrder) {
+      return a.renderOrder - b.renderOrder;
+    }
+    if (a.object === b.object) {
+      const facing = this.cameraFacing(a) - this.cameraFacing(b);
+      if (facing !== 0) {
+        return facing;
+      }
+    }
+    if (a.z !== b.z) {
+      return b.z - a.z;
+    }
+    return a.id - b.id;
+  }
+
+  /**
+   * +1 if the item's facing normal points towards the camera, -1 if away, 0 if it declares none
+   */
+  private cameraFacing(item: THREE.RenderItem): number {
+    const normal = item.material.userData.facingNormal as THREE.Vector3 | undefined;
+    if (!normal) {
+      return 0;
+    }
+
+    facingNormal.copy(normal).transformDirection(item.object.matrixWorld);
+    objectPosition.setFromMatrixPosition(item.object.matrixWorld);
+    toCamera.setFromMatrixPosition(this.camera.matrixWorld).sub(objectPosition);
+    return Math.sign(facingNormal.dot(toCamera));
+  }
+
   /**
    * Load HDRI environment via ResourceManager
    */
   private async loadHDRI(): Promise<void> {
     try {
       const hdrTexture = await ResourceManager.loadHDR('/hdr/environment.hdr');
-      this.scene.environment = hdrTexture;
+
+      // Prefilter for roughness-dependent reflections
+      const pmremGenerator = new THREE.PMREMGenerator(this.renderer);
+      const environment = pmremGenerator.fromEquirectangular(hdrTexture).texture;
+      pmremGenerator.dispose();
+
+      this.scene.environment = environment;
       this.scene.background = hdrTexture;
+      this.setEnvironment(environment);
     } catch (error) {
       // Fallback to solid color background if HDR not found
       console.warn('HDR environment not found, using default background');
@@ -130,6 +189,35 @@ export class EngineController {
     }
   }
 
+  /**
+   * Store the environment map and notify listeners
+   */
+  private setEnvironment(environment: THREE.Texture | null): void {
+    if (this.environment && this.environment !== environment) {
+      this.environment.dispose();
+    }
+    this.environment = environment;
+    this.environmentListeners.forEach(listener => listener(environment));
+  }
+
+  /**
+   * Get the PMREM-filtered environment map (null until the HDR has loaded)
+   */
+  getEnvironment(): THREE.Texture | null {
+    return this.environment;
+  }
+
+  /**
+   * Subscribe to environment changes
+   * The listener is called immediately if an environment is already loaded
+   */
+  onEnvironmentChange(listener: (environment: THREE.Texture | null) => void): void {
+    this.environmentListeners.push(listener);
+    if (this.environment) {
+      listener(this.environment);
+    }
+  }
+
   /**
    * Add object to scene
    */
@@ -206,6 +294,15 @@ export class EngineController {
     this.renderer.setSize(width, height, false);
   }
 
+  /**
+   * Enable or disable camera controls (e.g. while another interaction owns the pointer)
+   */
+  setControlsEnabled(enabled: boolean): void {
+    if (this.controls) {
+      this.controls.enabled = enabled;
+    }
+  }
+
   /**
    * Get the Three.js scene (for advanced use cases)
    */
@@ -257,6 +354,10 @@ export class EngineController {
       this.ambientLight = null;
     }
 
+    // Dispose environment
+    this.setEnvironment(null);
+    this.environmentListeners = [];
+
     // Dispose resource manager
     ResourceManager.dispose();
 
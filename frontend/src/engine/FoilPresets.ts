@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+
+/**
+ * Named foil colours offered to customers ('custom' takes a tint)
+ */
+export type FoilPresetName = 'gold' | 'silver' | 'copper' | 'roseGold' | 'black' | 'holographic' | 'custom';
+
+/**
+ * Embossed patterns of holographic foil
+ */
+export type HolographicPattern = 'rainbow' | 'pillar' | 'shatteredGlass';
+
+/**
+ * Holographic foil parameters
+ * patternScale: pattern repeats across the card (1 = once)
+ */
+export interface HolographicParams {
+  pattern: HolographicPattern;
+  patternScale: number;
+}
+
+/**
+ * Foil shading parameters
+ * color is the metal's reflectance at normal incidence (F0) in linear RGB
+ * holographic is null for plain metallic foils
+ */
+export interface FoilPreset {
+  color: THREE.Color;
+  roughness: number;
+  holographic: HolographicParams | null;
+}
+
+/**
+ * Measured-metal reflectances, slightly roughened for hot-stamped foil
+ */
+const FOIL_PRESETS: Record<Exclude<FoilPresetName, 'holographic' | 'custom'>, { color: [number, number, number]; roughness: number }> = {
+  gold: { color: [1.0, 0.766, 0.336], roughness: 0.22 },
+  silver: { color: [0.972, 0.96, 0.915], roughness: 0.18 },
+  copper: { color: [0.955, 0.638, 0.538], roughness: 0.25 },
+  roseGold: { color: [0.98, 0.72, 0.62], roughness: 0.22 },
+  black: { color: [0.035, 0.035, 0.04], roughness: 0.15 }
+};
+
+const CUSTOM_FOIL_ROUGHNESS = 0.22;
+
+/**
+ * Shader index of each holographic pattern (see holographicFoil.glsl)
+ */
+export const HOLOGRAPHIC_PATTERN_INDEX: Record<HolographicPattern, number> = {
+  rainbow: 0,
+  pillar: 1,
+  shatteredGlass: 2
+};
+
+/**
+ * Get the shading parameters for a foil preset
+ *
+ * @param name - Preset name
+ * @param tint - Reflectance colour for 'custom' foils (ignored otherwise)
+ */
+export function getFoilPreset(name: FoilPresetName, tint?: THREE.ColorRepresentation): FoilPreset {
+  if (name === 'holographic') {
+    return getHolographicFoil('rainbow');
+  }
+
+  if (name === 'custom') {
+    return {
+      color: new THREE.Color(tint ?? 0xcccccc),
+      roughness: CUSTOM_FOIL_ROUGHNESS,
+      holographic: null
+    };
+  }
+
+  const preset = FOIL_PRESETS[name];
+  if (!preset) {
+    throw new Error(`Unknown foil preset: ${name}`);
+  }
+  return {
+    color: new THREE.Color().fromArray(preset.color),
+    roughness: preset.roughness,
+    holographic: null
+  };
+}
+
+/**
+ * Get the shading parameters for a holographic foil
+ * The base is a polished silver; the thin-film pattern supplies the colour
+ *
+ * @param pattern - Holographic pattern
+ * @param patternScale - Pattern repeats across the card
+ */
+export function getHolographicFoil(pattern: HolographicPattern, patternScale: number = 1.0): FoilPreset {
+  if (!(pattern in HOLOGRAPHIC_PATTERN_INDEX)) {
+    throw new Error(`Unknown holographic pattern: ${pattern}`);
+  }
+  if (!(patternScale > 0)) {
+    throw new Error(`Holographic pattern scale must be positive: ${patternScale}`);
+  }
+  return {
+    color: new THREE.Color().fromArray(FOIL_PRESETS.silver.color),
+    roughness: 0.12,
+    holographic: { pattern, patternScale }
+  };
+}
+
+/**
+ * Colour channel of a multi-channel foil mask
+ */
+export type FoilMaskChannel = 'r' | 'g' | 'b' | 'a';
+
+/**
+ * Foils one multi-channel mask can carry (one per RGBA channel, or up to four indexed colours)
+ */
+export const MAX_FOIL_CHANNELS = 4;
+
+/**
+ * One foil of a multi-channel mask
+ * source: the mask channel carrying this foil, or the key colour of an indexed (spot colour) mask
+ */
+export interface FoilChannel {
+  source: FoilMaskChannel | THREE.Color;
+  preset: FoilPresetName;
+  foil: FoilPreset;
+}
+
+/**
+ * Assign a foil preset to a mask channel or an indexed mask colour
+ *
+ * @param source - Mask channel ('r', 'g', 'b', 'a') or key colour of an indexed mask
+ * @param preset - Foil preset
+ * @param tint - Reflectance colour for 'custom' foils (ignored otherwise)
+ */
+export function getFoilChannel(source: FoilMaskChannel | THREE.ColorRepresentation, preset: FoilPresetName, tint?: THREE.ColorRepresentation): FoilChannel {
+  const isChannel = source === 'r' || source === 'g' || source === 'b' || source === 'a';
+  return {
+    source: isChannel ? source : new THREE.Color(source),
+    preset,
+    foil: getFoilPreset(preset, tint)
+  };
+}
+
+/**
+ * Throw unless the channels fit in one mask and all use the same kind of source
+ * (mask channels or indexed colours, not both) without repeating a channel
+ */
+export function validateFoilChannels(channels: readonly FoilChannel[]): void {
+  if (channels.length < 1 || channels.length > MAX_FOIL_CHANNELS) {
+    throw new Error(`A foil mask carries 1 to ${MAX_FOIL_CHANNELS} foils, got ${channels.length}`);
+  }
+
+  const indexed = channels.map(channel => channel.source instanceof THREE.Color);
+  if (indexed.some(isIndexed => isIndexed !== indexed[0])) {
+    throw new Error('Foil channels must all be mask channels or all be indexed colours');
+  }
+
+  const sources = channels.map(channel => (channel.source instanceof THREE.Color ? channel.source.getHexString() : channel.source));
+  if (new Set(sources).size !== sources.length) {
+    throw new Error('Each mask channel or indexed colour can carry only one foil');
+  }
+}
@@ -0,0 +1,172 @@
+import * as THREE from 'three';
+import { FoilChannel, getFoilChannel, getFoilPreset, HolographicParams, validateFoilChannels } from './FoilPresets.js';
+import { getLetterpress, LetterpressParams } from './Letterpress.js';
+
+/**
+ * Print layer kinds understood by the shader pipeline
+ */
+export type LayerKind = 'foil' | 'multiFoil' | 'spotUV' | 'emboss' | 'deboss' | 'whiteInk' | 'letterpress';
+
+/**
+ * Blend modes, each backed by a helper in layerBlend.glsl
+ */
+export type LayerBlendMode = 'normal' | 'alpha' | 'overlay' | 'screen';
+
+/**
+ * Per-layer shading parameters
+ * Not every kind uses every field (e.g. emboss ignores color)
+ */
+export interface LayerParams {
+  color: THREE.Color; // Ink colour (letterpress: the press ink), or reflectance (F0) for foil
+  opacity: number;
+  roughness: number; // Foil, letterpress ink
+  holographic: HolographicParams | null; // Holographic foil only
+  letterpress: LetterpressParams | null; // Letterpress only
+  foilChannels: FoilChannel[] | null; // Multi-channel foil only: one foil per mask channel or indexed colour
+}
+
+/**
+ * A single print layer: a mask, what is printed through it and how it blends
+ */
+export interface PrintLayer {
+  id: string;
+  kind: LayerKind;
+  mask: THREE.Texture;
+  params: LayerParams;
+  blendMode: LayerBlendMode;
+  enabled: boolean;
+  intensity: number; // 0..1, scales mask coverage
+}
+
+/**
+ * Options accepted by LayerStack.add (everything but kind and mask is optional)
+ */
+export interface PrintLayerOptions {
+  id?: string;
+  kind: LayerKind;
+  mask: THREE.Texture;
+  params?: Partial<LayerParams>;
+  blendMode?: LayerBlendMode;
+  enabled?: boolean;
+  intensity?: number;
+}
+
+/**
+ * Defaults applied per kind when a layer omits params or blend mode
+ */
+const LAYER_DEFAULTS: Record<LayerKind, LayerParams & { blendMode: LayerBlendMode }> = {
+  foil: { ...getFoilPreset('gold'), opacity: 1.0, letterpress: null, foilChannels: null, blendMode: 'normal' },
+  multiFoil: {
+    ...getFoilPreset('gold'),
+    opacity: 1.0,
+    letterpress: null,
+    foilChannels: [getFoilChannel('r', 'gold'), getFoilChannel('g', 'silver')],
+    blendMode: 'normal'
+  },
+  spotUV: { color: new THREE.Color(0.95, 0.97, 1.0), opacity: 1.0, roughness: 0.1, holographic: null, letterpress: null, foilChannels: null, blendMode: 'normal' },
+  emboss: { color: new THREE.Color(0xffffff), opacity: 1.0, roughness: 0.85, holographic: null, letterpress: null, foilChannels: null, blendMode: 'normal' },
+  deboss: { color: new THREE.Color(0xffffff), opacity: 1.0, roughness: 0.85, holographic: null, letterpress: null, foilChannels: null, blendMode: 'normal' },
+  whiteInk: { color: new THREE.Color(0xffffff), opacity: 0.9, roughness: 0.85, holographic: null, letterpress: null, foilChannels: null, blendMode: 'alpha' },
+  letterpress: { color: new THREE.Color(0x1c2233), opacity: 1.0, roughness: 0.8, holographic: null, letterpress: getLetterpress(), foilChannels: null, blendMode: 'normal' }
+};
+
+/**
+ * Layer Stack
+ * Ordered list of print layers applied on top of the artwork, bottom to top.
+ * The stack is plain data: MaterialPipeline turns it into shader code.
+ */
+export class LayerStack {
+  private entries: PrintLayer[] = [];
+  private nextId: number = 0;
+
+  constructor(layers: PrintLayerOptions[] = []) {
+    layers.forEach(layer => this.add(layer));
+  }
+
+  /**
+   * Layers in application order (bottom to top)
+   */
+  get layers(): readonly PrintLayer[] {
+    return this.entries;
+  }
+
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add a layer on top of the stack
+   */
+  add(options: PrintLayerOptions): PrintLayer {
+    const defaults = LAYER_DEFAULTS[options.kind];
+    const id = options.id ?? `${options.kind}-${this.nextId++}`;
+
+    if (this.get(id)) {
+      throw new Error(`Layer id already in stack: ${id}`);
+    }
+
+    if (options.kind === 'multiFoil') {
+      validateFoilChannels(options.params?.foilChannels ?? defaults.foilChannels ?? []);
+    }
+
+    const layer: PrintLayer = {
+      id,
+      kind: options.kind,
+      mask: options.mask,
+      params: {
+        color: new THREE.Color(options.params?.color ?? defaults.color),
+        opacity: options.params?.opacity ?? defaults.opacity,
+        roughness: options.params?.roughness ?? defaults.roughness,
+        holographic: options.params?.holographic !== undefined ? options.params.holographic : defaults.holographic,
+        letterpress: options.params?.letterpress !== undefined ? options.params.letterpress : defaults.letterpress,
+        foilChannels: options.params?.foilChannels !== undefined ? options.params.foilChannels : defaults.foilChannels
+      },
+      blendMode: options.blendMode ?? defaults.blendMode,
+      enabled: options.enabled ?? true,
+      intensity: options.intensity ?? 1.0
+    };
+
+    this.entries.push(layer);
+    return layer;
+  }
+
+  /**
+   * Remove a layer by id
+   */
+  remove(id: string): boolean {
+    const index = this.entries.findIndex(layer => layer.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Move a layer to a new position in the stack
+   */
+  move(id: string, index: number): void {
+    const current = this.entries.findIndex(layer => layer.id === id);
+    if (current === -1) {
+      throw new Error(`Layer not found: ${id}`);
+    }
+    const [layer] = this.entries.splice(current, 1);
+    this.entries.splice(Math.max(0, Math.min(index, this.entries.length)), 0, layer);
+  }
+
+  get(id: string): PrintLayer | undefined {
+    return this.entries.find(layer => layer.id === id);
+  }
+
+  ofKind(kind: LayerKind): PrintLayer[] {
+    return this.entries.filter(layer => layer.kind === kind);
+  }
+
+  /**
+   * Structural signature (kinds, order and blend modes)
+   * Two stacks with the same signature can share a compiled shader
+   */
+  signature(): string {
+    return this.entries.map(layer => `${layer.kind}:${layer.blendMode}`).join('|');
+  }
+}
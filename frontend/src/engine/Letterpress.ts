@@ -0,0 +1,47 @@
+/**
+ * Letterpress impression parameters
+ * depth: how far the plate is pressed into the stock (mm); inkSpread: how far the ink squeezes
+ * past the plate edge (mm); blind: pressed without ink, leaving only the impression
+ */
+export interface LetterpressParams {
+  depth: number;
+  inkSpread: number;
+  blind: boolean;
+}
+
+/**
+ * Deepest impression as a share of the stock thickness
+ * Deeper presses bruise through to the back of the sheet.
+ */
+export const MAX_IMPRESSION_RATIO = 0.4;
+
+const DEFAULT_LETTERPRESS: LetterpressParams = {
+  depth: 0.15,
+  inkSpread: 0.04,
+  blind: false
+};
+
+/**
+ * Get letterpress parameters (inked, a typical impression unless overridden)
+ */
+export function getLetterpress(options: Partial<LetterpressParams> = {}): LetterpressParams {
+  const params = { ...DEFAULT_LETTERPRESS, ...options };
+  if (!(params.depth >= 0) || !(params.inkSpread >= 0)) {
+    throw new Error('Letterpress depth and ink spread must be non-negative (mm)');
+  }
+  return params;
+}
+
+/**
+ * Get blind letterpress parameters: the impression without ink
+ */
+export function getBlindLetterpress(depth: number = DEFAULT_LETTERPRESS.depth): LetterpressParams {
+  return getLetterpress({ depth, inkSpread: 0, blind: true });
+}
+
+/**
+ * Deepest impression a stock of the given thickness (mm) can take
+ */
+export function maxImpressionDepth(stockThickness: number): number {
+  return Math.max(stockThickness, 0) * MAX_IMPRESSION_RATIO;
+}
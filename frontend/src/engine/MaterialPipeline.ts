@@ -2,6 +2,101 @@ import * as THREE from 'three';
 // Import shaders without ?raw so vite-plugin-glsl can process #include directives
 import vertexShader from '../shaders/vertex.glsl';
 import fragmentShader from '../shaders/fragment.glsl';
+import edgeFragmentShader from '../shaders/edgeFragment.glsl';
+import { LayerStack, LayerKind, LayerBlendMode, LayerParams, PrintLayer } from './LayerStack.js';
+import { FoilChannel, HOLOGRAPHIC_PATTERN_INDEX, MAX_FOIL_CHANNELS, validateFoilChannels } from './FoilPresets.js';
+import { CardFace, CARD_FACE_MATERIAL_INDEX } from './CardGeometry.js';
+import { ArtworkPlacement, DEFAULT_ARTWORK_PLACEMENT, artworkUVTransform } from './ArtworkPlacement.js';
+import { Lamination, PaperStock, PAPER_NORMAL_MAP_SIZE, getLamination, getPaperNormalMap, getPaperStock } from './PaperStocks.js';
+import { Substrate } from './Substrates.js';
+import { maxImpressionDepth } from './Letterpress.js';
+import { DEFAULT_GAMUT_TOLERANCE, PrintProofOptions } from './ColorProof.js';
+import { EdgeFinish, EDGE_FINISH_MODE_INDEX, MAX_PLIES, StockPly, getPlyStock, validatePlies } from './EdgeFinish.js';
+
+// Roughness of edge paint (a satin acrylic)
+const EDGE_PAINT_ROUGHNESS = 0.55;
+
+/**
+ * Artwork and print layers of one printed face
+ */
+export interface CardFaceOptions {
+  artwork?: THREE.Texture;
+  layers?: LayerStack;
+}
+
+/**
+ * One material per card face, matching the CardGeometry groups
+ * Front and back carry independent artwork and layer stacks; the edge shows the stock plies, paint or foil
+ */
+export type CardMaterialSet = Record<CardFace, THREE.ShaderMaterial>;
+
+/**
+ * GLSL snippets for each layer kind
+ * coverage: how much of the layer is present at this texel (from the sampled mask value `m`);
+ *           masks are sampled at the placed artwork UV `artUv`, and nothing prints outside the artwork
+ * color: optional layer colour blended into surface.albedo (may read `surface` and `m`)
+ * surface: optional extra statements that modify the PrintSurface (metalness, roughness, normal, ...)
+ * channels: the mask carries several layers (one per channel or indexed colour): the code loops over
+ *           channel `c`, with `m` the coverage of that channel
+ */
+const LAYER_KIND_GLSL: Record<LayerKind, {
+  coverage: string;
+  color?: (index: number) => string;
+  surface?: (index: number) => string;
+  channels?: number;
+}> = {
+  foil: {
+    coverage: 'm',
+    color: (i) => `uLayerColor${i}`,
+    surface: (i) => `applyFoilSurface(surface, coverage, uLayerRoughness${i});\n` +
+      `        applyHolographicSurface(surface, coverage * uLayerIridescence${i}, artUv, uLayerHoloPattern${i}, uLayerHoloScale${i});`
+  },
+  // One pass and one texture for up to four foils
+  multiFoil: {
+    coverage: 'm',
+    channels: MAX_FOIL_CHANNELS,
+    color: (i) => `uLayerChannelColor${i}[c]`,
+    surface: (i) => `applyFoilSurface(surface, coverage, uLayerChannelRoughness${i}[c]);\n` +
+      `            applyHolographicSurface(surface, coverage * uLayerChannelIridescence${i}[c], artUv, uLayerChannelHoloPattern${i}[c], uLayerChannelHoloScale${i}[c]);`
+  },
+  spotUV: {
+    coverage: 'm',
+    color: () => 'uvLayerColor(surface.albedo, uGloss)',
+    surface: (i) => `applySpotUVSurface(surface, coverage, uGloss, ` +
+      `perturbNormalByHeight(surface.normal, layerMask${i}, artUv, uVarnishThickness * uLayerEnabled${i} * uLayerIntensity${i} * printed, faceDirection));`
+  },
+  // Blind relief: no colour change, only the normal (deboss mirrors uEmbossStrength)
+  emboss: {
+    coverage: '1.0',
+    surface: (i) => `applyEmbossSurface(surface, sobelHeightGradient(layerMask${i}, artUv, uLayerTexel${i}), uEmbossStrength, coverage, artUv);`
+  },
+  deboss: {
+    coverage: '1.0',
+    surface: (i) => `applyEmbossSurface(surface, sobelHeightGradient(layerMask${i}, artUv, uLayerTexel${i}), -uEmbossStrength, coverage, artUv);`
+  },
+  // Impression and ink from one plate mask (blend mode unused: the ink always prints normally)
+  letterpress: {
+    coverage: '1.0',
+    surface: (i) => `applyLetterpressSurface(surface, layerMask${i}, artUv, uLayerTexel${i}, uLayerSpread${i}, ` +
+      `uLayerColor${i}, uLayerRoughness${i}, uLayerInk${i}, uLayerDepth${i}, coverage, faceDirection);`
+  },
+  // Printed under the artwork: the ink sits on the white instead of the substrate
+  whiteInk: {
+    coverage: 'm',
+    color: (i) => `uLayerColor${i} * inkColor`,
+    surface: () => 'applyWhiteInkSurface(surface, coverage);'
+  }
+};
+
+/**
+ * GLSL blend expressions, mapped onto the helpers in layerBlend.glsl
+ */
+const BLEND_MODE_GLSL: Record<LayerBlendMode, (layerColor: string, mask: string, index: number) => string> = {
+  normal: (layerColor, mask) => `blendWithMask(surface.albedo, ${layerColor}, ${mask})`,
+  alpha: (layerColor, mask, i) => `blendWithAlpha(surface.albedo, ${layerColor}, ${mask}, uLayerOpacity${i})`,
+  overlay: (layerColor, mask) => `overlayBlend(surface.albedo, ${layerColor}, ${mask})`,
+  screen: (layerColor, mask) => `screenBlend(surface.albedo, ${layerColor}, ${mask})`
+};
 
 /**
  * Material Pipeline
@@ -11,78 +106,854 @@ import fragmentShader from '../shaders/fragment.glsl';
 export class MaterialPipeline {
   /**
    * Create a card material with shader pipeline
-   * 
-   * @param options - Texture options (all optional, will use placeholders if not provided)
+   *
+   * @param options - Artwork texture and print layer stack (both optional, placeholders/empty stack if not provided)
    * @returns THREE.ShaderMaterial configured with all shader modules
    */
   static createCardMaterial(options: {
     artwork?: THREE.Texture;
-    foilMask?: THREE.Texture;
-    uvMask?: THREE.Texture;
-    embossMap?: THREE.Texture;
+    layers?: LayerStack;
   }): THREE.ShaderMaterial {
-    // Create placeholder textures if not provided
+    // Create placeholder texture if not provided
     const artwork = options.artwork || MaterialPipeline.createPlaceholderTexture(512, 512, new THREE.Color(0.8, 0.8, 0.9));
-    const foilMask = options.foilMask || MaterialPipeline.createPlaceholderTexture(512, 512, new THREE.Color(0.0, 0.0, 0.0));
-    const uvMask = options.uvMask || MaterialPipeline.createPlaceholderTexture(512, 512, new THREE.Color(0.0, 0.0, 0.0));
-    const embossMap = options.embossMap || MaterialPipeline.createPlaceholderTexture(512, 512, new THREE.Color(0.5, 0.5, 0.5));
 
-    // Use shader files directly (they include all modules via #include directives)
-    // vite-plugin-glsl will handle the #include preprocessing
+    // Everything counts as safe until PrintGuides provides a mask
+    const safeZoneMask = new THREE.DataTexture(new Uint8Array([255, 255, 255, 255]), 1, 1);
+    safeZoneMask.needsUpdate = true;
 
     // Create shader material
     const material = new THREE.ShaderMaterial({
       vertexShader,
       fragmentShader,
       uniforms: {
+        // Scene lights (filled in by the renderer because lights: true)
+        ...THREE.UniformsUtils.clone(THREE.UniformsLib.lights),
+
         // Texture uniforms (matching fragment shader uniform names)
         artworkMap: { value: artwork },
-        foilMask: { value: foilMask },
-        uvMask: { value: uvMask },
-        embossMap: { value: embossMap },
+        uArtworkTransform: { value: new THREE.Matrix3() }, // Card UV -> artwork UV (see setArtworkPlacement)
+        uStockColor: { value: new THREE.Color(1, 1, 1) },
+
+        // Paper stock and lamination (see setPaperStock, setLamination)
+        uPaperNormalMap: { value: getPaperNormalMap('smooth') },
+        uPaperTileSize: { value: 1.0 },
+        uPaperSlopeScale: { value: 0.0 },
+        uPaperSheen: { value: 0.0 },
+        uLaminationCoat: { value: 0.0 },
+        uLaminationRoughness: { value: 1.0 },
+        uLaminationSheen: { value: 0.0 },
+        uLaminationTextureVisibility: { value: 1.0 },
+
+        // Substrate (paper until setSubstrate says otherwise)
+        uSubstrateMetal: { value: 0.0 },
+        uTransmission: { value: 0.0 },
+        uFrost: { value: 0.0 },
+        uIor: { value: 1.5 },
+        uAnisotropy: { value: 0.0 },
+
+        // Print guides (see setPrintGuides)
+        uSafeZoneMask: { value: safeZoneMask },
+        uGuidesEnabled: { value: 0.0 },
+        uGuideBackground: { value: new THREE.Color(1, 1, 1) },
+
+        // Print proof (see setPrintProof)
+        uProofEnabled: { value: 0.0 },
+        uProofLUT: { value: null },
+        uProofLUTSize: { value: 2.0 },
+        uProofDomainMin: { value: new THREE.Vector3(0, 0, 0) },
+        uProofDomainMax: { value: new THREE.Vector3(1, 1, 1) },
+        uGamutWarning: { value: 0.0 },
+        uGamutTolerance: { value: DEFAULT_GAMUT_TOLERANCE },
+
+        // Environment (PMREM texture, see setEnvironment)
+        envMap: { value: null },
+        uEnvMapIntensity: { value: 1.0 },
 
         // Material properties
-        uGloss: { value: 0.5 },
-        uEmbossStrength: { value: 0.5 }
+        uBaseRoughness: { value: 0.85 },
+        uGloss: { value: 0.85 },
+        uVarnishThickness: { value: 0.05 }, // mm
+        uEmbossStrength: { value: 0.3 }, // mm
+        uDisplacementScale: { value: 0.0 }
       },
+      lights: true,
       side: THREE.DoubleSide
     });
 
-    // Map shader module uniforms to our uniform names
-    // The shader modules use their own uniform names, so we need to alias them
-    // We'll update the fragment shader to use the correct uniform names
-    // For now, we'll keep the shader modules as-is and map in the update method
+    // Needed by textureCubeUV on WebGL1
+    material.extensions.derivatives = true;
+    material.extensions.shaderTextureLOD = true;
+
+    // Generate per-layer uniforms and shader code from the stack
+    MaterialPipeline.setLayerStack(material, options.layers || new LayerStack());
+
+    MaterialPipeline.setPaperStock(material, getPaperStock('silk'));
+    MaterialPipeline.setLamination(material, getLamination('none'));
+
+    return material;
+  }
+
+  /**
+   * Create the per-face materials for a double-sided card
+   * Each face only renders its front side: the geometry groups already cover both sides of the card
+   *
+   * @param options - Artwork and layer stack per printed face (placeholders/empty stacks if not provided),
+   *                  and the stock plies shown on the edge (single ply if not provided)
+   */
+  static createCardMaterialSet(options: Partial<Record<'front' | 'back', CardFaceOptions> & { plies: StockPly[] }>): CardMaterialSet {
+    const set: CardMaterialSet = {
+      front: MaterialPipeline.createCardMaterial(options.front || {}),
+      back: MaterialPipeline.createCardMaterial(options.back || {}),
+      edge: MaterialPipeline.createEdgeMaterial({ plies: options.plies })
+    };
+
+    for (const material of Object.values(set)) {
+      material.side = THREE.FrontSide;
+    }
+
+    // Outward normal of each printed face, used by EngineController to sort see-through cards
+    set.front.userData.facingNormal = new THREE.Vector3(0, 0, 1);
+    set.back.userData.facingNormal = new THREE.Vector3(0, 0, -1);
+
+    return set;
+  }
+
+  /**
+   * Create the material for the card edge (side walls)
+   * Shows the stock plies until an edge finish (paint or foil) is applied
+   *
+   * @param options - Stock plies front to back (single white ply if not provided)
+   */
+  static createEdgeMaterial(options: { plies?: StockPly[] } = {}): THREE.ShaderMaterial {
+    const material = new THREE.ShaderMaterial({
+      // The edge never displaces: build the vertex shader for an empty stack
+      vertexShader: MaterialPipeline.buildVertexShader(new LayerStack()),
+      fragmentShader: edgeFragmentShader,
+      uniforms: {
+        ...THREE.UniformsUtils.clone(THREE.UniformsLib.lights),
+
+        envMap: { value: null },
+        uEnvMapIntensity: { value: 1.0 },
+
+        uBaseRoughness: { value: 0.85 },
+        uPlyColors: { value: [] as THREE.Color[] },
+        uPlyBounds: { value: [] as number[] },
+        uPlyCount: { value: 1 },
+        uEdgeMode: { value: EDGE_FINISH_MODE_INDEX.stock },
+        uEdgeColor: { value: new THREE.Color(1, 1, 1) },
+        uEdgeRoughness: { value: EDGE_PAINT_ROUGHNESS },
+        uEdgeMetal: { value: 0.0 },
+        uEdgeOpacity: { value: 1.0 },
+
+        // Read by the shared vertex shader
+        uArtworkTransform: { value: new THREE.Matrix3() },
+        uEmbossStrength: { value: 0.0 },
+        uDisplacementScale: { value: 0.0 }
+      },
+      lights: true
+    });
+
+    material.extensions.derivatives = true;
+    material.extensions.shaderTextureLOD = true;
+
+    MaterialPipeline.setEdgePlies(material, options.plies || getPlyStock('single'));
 
     return material;
   }
 
+  /**
+   * Set the plies shown on the card edge (multi-ply duplex/triplex stocks)
+   * Ply weights are normalised, so the plies always span the full card thickness
+   *
+   * @param material - The edge material to update
+   * @param plies - Plies front to back
+   */
+  static setEdgePlies(material: THREE.ShaderMaterial, plies: StockPly[]): void {
+    validatePlies(plies);
+
+    const totalWeight = plies.reduce((sum, ply) => sum + ply.weight, 0);
+    const colors: THREE.Color[] = [];
+    const bounds: number[] = [];
+    let accumulated = 0;
+
+    for (let i = 0; i < MAX_PLIES; i++) {
+      const ply = plies[Math.min(i, plies.length - 1)];
+      accumulated += i < plies.length ? ply.weight : 0;
+      colors.push(ply.color.clone());
+      bounds.push(i < plies.length - 1 ? accumulated / totalWeight : 1.0);
+    }
+
+    material.uniforms.uPlyColors.value = colors;
+    material.uniforms.uPlyBounds.value = bounds;
+    material.uniforms.uPlyCount.value = plies.length;
+  }
+
+  /**
+   * Set the edge finish: bare stock, painted edge or foiled edge
+   *
+   * @param material - The edge material to update
+   * @param finish - Edge finish (paint colour or foil preset where relevant)
+   */
+  static setEdgeFinish(material: THREE.ShaderMaterial, finish: EdgeFinish): void {
+    material.uniforms.uEdgeMode.value = EDGE_FINISH_MODE_INDEX[finish.mode];
+
+    if (finish.mode === 'painted') {
+      material.uniforms.uEdgeColor.value.copy(finish.color);
+      material.uniforms.uEdgeRoughness.value = EDGE_PAINT_ROUGHNESS;
+    } else if (finish.mode === 'foil') {
+      material.uniforms.uEdgeColor.value.copy(finish.foil.color);
+      material.uniforms.uEdgeRoughness.value = finish.foil.roughness;
+    }
+  }
+
+  /**
+   * Materials of a set in geometry group order, ready to assign to a mesh
+   */
+  static getFaceMaterials(set: CardMaterialSet): THREE.ShaderMaterial[] {
+    const materials: THREE.ShaderMaterial[] = [];
+    for (const face of Object.keys(CARD_FACE_MATERIAL_INDEX) as CardFace[]) {
+      materials[CARD_FACE_MATERIAL_INDEX[face]] = set[face];
+    }
+    return materials;
+  }
+
+  /**
+   * Apply a layer stack to an existing material
+   * Recompiles the shader only when the stack structure (kinds, order, blend modes) changed,
+   * otherwise just refreshes the per-layer uniforms
+   *
+   * @param material - The card material to update
+   * @param layers - The layer stack to apply
+   */
+  static setLayerStack(material: THREE.ShaderMaterial, layers: LayerStack): void {
+    const signature = layers.signature();
+
+    if (material.userData.layerSignature !== signature) {
+      // Remove uniforms belonging to the previous stack
+      for (const name of Object.keys(material.uniforms)) {
+        if (/^(layerMask|uLayer[A-Z]\w*?)\d+$/.test(name)) {
+          delete material.uniforms[name];
+        }
+      }
+
+      material.vertexShader = MaterialPipeline.buildVertexShader(layers);
+      material.fragmentShader = MaterialPipeline.buildFragmentShader(layers);
+      material.userData.layerSignature = signature;
+      material.needsUpdate = true;
+    }
+
+    material.userData.layerStack = layers;
+    layers.layers.forEach((layer, index) => MaterialPipeline.applyLayerUniforms(material, layer, index));
+  }
+
+  /**
+   * Get the layer stack currently applied to a material
+   */
+  static getLayerStack(material: THREE.ShaderMaterial): LayerStack {
+    return material.userData.layerStack as LayerStack;
+  }
+
+  /**
+   * Set the environment used for image-based lighting (reflections on foil etc.)
+   *
+   * @param material - The card material to update
+   * @param envMap - PMREM-filtered environment (PMREMGenerator output), or null to disable
+   */
+  static setEnvironment(material: THREE.ShaderMaterial, envMap: THREE.Texture | null): void {
+    material.uniforms.envMap.value = envMap;
+
+    delete material.defines.ENVMAP_TYPE_CUBE_UV;
+    delete material.defines.CUBEUV_TEXEL_WIDTH;
+    delete material.defines.CUBEUV_TEXEL_HEIGHT;
+    delete material.defines.CUBEUV_MAX_MIP;
+
+    if (envMap) {
+      // Same sizing three.js derives for its built-in materials (WebGLProgram.generateCubeUVSize)
+      const imageHeight = envMap.image.height;
+      const maxMip = Math.log2(imageHeight) - 2;
+
+      material.defines.ENVMAP_TYPE_CUBE_UV = '';
+      material.defines.CUBEUV_TEXEL_WIDTH = 1.0 / (3 * Math.max(Math.pow(2, maxMip), 7 * 16));
+      material.defines.CUBEUV_TEXEL_HEIGHT = 1.0 / imageHeight;
+      material.defines.CUBEUV_MAX_MIP = `${maxMip}.0`;
+    }
+
+    material.needsUpdate = true;
+  }
+
+  /**
+   * Place the artwork on the card: fit mode plus offset, scale and rotation
+   * Applied as a UV transform shared by the artwork and all layer masks, so layers stay in register.
+   * Call again when the card size changes; swapping the artwork re-fits it automatically.
+   *
+   * @param material - The card material to update
+   * @param placement - Placement (missing fields keep their current value)
+   * @param cardWidth - Card width in mm
+   * @param cardHeight - Card height in mm
+   */
+  static setArtworkPlacement(
+    material: THREE.ShaderMaterial,
+    placement: Partial<ArtworkPlacement>,
+    cardWidth: number,
+    cardHeight: number
+  ): void {
+    material.userData.artworkPlacement = {
+      ...(MaterialPipeline.getArtworkPlacement(material)),
+      ...placement
+    };
+    material.userData.cardSize = { width: cardWidth, height: cardHeight };
+    MaterialPipeline.updateArtworkTransform(material);
+  }
+
+  /**
+   * Get the artwork placement of a material
+   */
+  static getArtworkPlacement(material: THREE.ShaderMaterial): ArtworkPlacement {
+    return { ...(material.userData.artworkPlacement ?? DEFAULT_ARTWORK_PLACEMENT) };
+  }
+
+  /**
+   * Set the paper stock under the artwork: paper colour, surface texture, roughness and fibre sheen
+   *
+   * @param material - The card material to update
+   * @param stock - Stock shading parameters (see PaperStocks)
+   */
+  static setPaperStock(material: THREE.ShaderMaterial, stock: PaperStock): void {
+    const uniforms = material.uniforms;
+    uniforms.uStockColor.value.copy(stock.color);
+    uniforms.uBaseRoughness.value = THREE.MathUtils.clamp(stock.roughness, 0, 1);
+    uniforms.uPaperNormalMap.value = getPaperNormalMap(stock.texture);
+    uniforms.uPaperTileSize.value = Math.max(stock.tileSize, 1e-3);
+    // Normal map slopes are per texel of a unit-height tile
+    uniforms.uPaperSlopeScale.value = Math.max(stock.relief, 0) * PAPER_NORMAL_MAP_SIZE;
+    uniforms.uPaperSheen.value = THREE.MathUtils.clamp(stock.sheen, 0, 1);
+  }
+
+  /**
+   * Set the lamination film over the printed face (none, matte, gloss, soft-touch)
+   * Spot UV and foil are applied on top of the film
+   *
+   * @param material - The card material to update
+   * @param lamination - Lamination shading parameters (see PaperStocks)
+   */
+  static setLamination(material: THREE.ShaderMaterial, lamination: Lamination): void {
+    const uniforms = material.uniforms;
+    uniforms.uLaminationCoat.value = THREE.MathUtils.clamp(lamination.coat, 0, 1);
+    uniforms.uLaminationRoughness.value = THREE.MathUtils.clamp(lamination.roughness, 0, 1);
+    uniforms.uLaminationSheen.value = THREE.MathUtils.clamp(lamination.sheen, 0, 1);
+    uniforms.uLaminationTextureVisibility.value = THREE.MathUtils.clamp(lamination.textureVisibility, 0, 1);
+  }
+
+  /**
+   * Set the stock thickness, which limits how deep letterpress impressions can go
+   *
+   * @param material - The card material to update
+   * @param thickness - Card thickness in mm
+   */
+  static setStockThickness(material: THREE.ShaderMaterial, thickness: number): void {
+    material.userData.stockThickness = thickness;
+    MaterialPipeline.forEachLayerOfKind(material, 'letterpress', (layer, index) => {
+      MaterialPipeline.applyLayerUniforms(material, layer, index);
+    });
+  }
+
+  /**
+   * Set what the card is made of: paper, clear or frosted plastic, or brushed metal
+   * Plastic and metal replace the paper colour, texture and sheen (re-apply a paper stock after
+   * switching back to paper). See-through substrates make the material transparent and double-sided,
+   * so the back print shows through the sheet.
+   *
+   * @param material - The card face material to update
+   * @param substrate - Substrate shading parameters (see Substrates)
+   */
+  static setSubstrate(material: THREE.ShaderMaterial, substrate: Substrate): void {
+    const uniforms = material.uniforms;
+    uniforms.uSubstrateMetal.value = substrate.kind === 'metal' ? 1.0 : 0.0;
+    uniforms.uTransmission.value = THREE.MathUtils.clamp(substrate.transmission, 0, 1);
+    uniforms.uFrost.value = THREE.MathUtils.clamp(substrate.frost, 0, 1);
+    uniforms.uIor.value = Math.max(substrate.ior, 1);
+    uniforms.uAnisotropy.value = THREE.MathUtils.clamp(substrate.anisotropy, 0, 1);
+
+    if (substrate.kind !== 'paper') {
+      uniforms.uStockColor.value.copy(substrate.color);
+      uniforms.uBaseRoughness.value = THREE.MathUtils.clamp(substrate.roughness, 0, 1);
+      uniforms.uPaperSlopeScale.value = 0.0;
+      uniforms.uPaperSheen.value = 0.0;
+    }
+
+    MaterialPipeline.setSeeThrough(material, substrate.transmission > 0, THREE.DoubleSide);
+  }
+
+  /**
+   * Match the card edge to the substrate: the paper plies, a metal edge, or a plastic edge
+   * Plastic and metal are a single ply of the sheet (re-apply the plies after switching back to paper).
+   * Paint and foil edge finishes still cover the edge.
+   *
+   * @param material - The edge material to update
+   * @param substrate - Substrate shading parameters (see Substrates)
+   */
+  static setEdgeSubstrate(material: THREE.ShaderMaterial, substrate: Substrate): void {
+    const uniforms = material.uniforms;
+    uniforms.uEdgeMetal.value = substrate.kind === 'metal' ? 1.0 : 0.0;
+    // Light piped along the sheet leaves through the edge, so it looks denser than the faces
+    uniforms.uEdgeOpacity.value = 1.0 - 0.5 * THREE.MathUtils.clamp(substrate.transmission, 0, 1);
+
+    if (substrate.kind === 'paper') {
+      uniforms.uBaseRoughness.value = 0.85;
+    } else {
+      uniforms.uBaseRoughness.value = THREE.MathUtils.clamp(substrate.roughness, 0, 1);
+      MaterialPipeline.setEdgePlies(material, [{ color: substrate.color, weight: 1 }]);
+    }
+
+    MaterialPipeline.setSeeThrough(material, substrate.transmission > 0, THREE.FrontSide);
+  }
+
+  /**
+   * Highlight artwork content in the unsafe band near the trim and cutouts
+   *
+   * @param material - The card material to update
+   * @param guides - Safe zone mask in card UVs (white = safe, see PrintGuides) and the artwork colour
+   *                 treated as empty background (white if not provided), or null to turn off
+   */
+  static setPrintGuides(
+    material: THREE.ShaderMaterial,
+    guides: { safeZoneMask: THREE.Texture; background?: THREE.Color } | null
+  ): void {
+    material.uniforms.uGuidesEnabled.value = guides ? 1.0 : 0.0;
+    if (guides) {
+      material.uniforms.uSafeZoneMask.value = guides.safeZoneMask;
+      material.uniforms.uGuideBackground.value.set(guides.background ?? 0xffffff);
+    }
+  }
+
+  /**
+   * Soft-proof the artwork: press colours from a LUT, optional out-of-gamut hatching, and no filmic
+   * tone mapping (the face shows the printed colours as they are)
+   *
+   * @param material - The card face material to update
+   * @param proof - Proof LUT and gamut warning settings, or null for the regular preview
+   */
+  static setPrintProof(material: THREE.ShaderMaterial, proof: PrintProofOptions | null): void {
+    const uniforms = material.uniforms;
+    uniforms.uProofEnabled.value = proof ? 1.0 : 0.0;
+
+    if (proof) {
+      uniforms.uProofLUT.value = proof.lut.texture;
+      uniforms.uProofLUTSize.value = proof.lut.size;
+      uniforms.uProofDomainMin.value.copy(proof.lut.domainMin);
+      uniforms.uProofDomainMax.value.copy(proof.lut.domainMax);
+      uniforms.uGamutWarning.value = proof.gamutWarning ? 1.0 : 0.0;
+      uniforms.uGamutTolerance.value = Math.max(proof.gamutTolerance, 0);
+    }
+
+    // Tone mapping is compiled into the shader
+    if (material.toneMapped !== !proof) {
+      material.toneMapped = !proof;
+      material.needsUpdate = true;
+    }
+  }
+
+  /**
+   * Update a layer's shading parameters (colour, opacity, roughness) without recompiling
+   *
+   * @param material - The card material to update
+   * @param id - Layer id
+   * @param params - Parameters to change
+   */
+  static setLayerParams(material: THREE.ShaderMaterial, id: string, params: Partial<LayerParams>): void {
+    const layers = MaterialPipeline.getLayerStack(material);
+    const layer = layers.get(id);
+    if (!layer) {
+      console.warn(`setLayerParams: no layer with id ${id}`);
+      return;
+    }
+
+    if (params.color !== undefined) layer.params.color.copy(params.color);
+    if (params.opacity !== undefined) layer.params.opacity = params.opacity;
+    if (params.roughness !== undefined) layer.params.roughness = params.roughness;
+    if (params.holographic !== undefined) layer.params.holographic = params.holographic;
+    if (params.letterpress !== undefined) layer.params.letterpress = params.letterpress;
+    if (params.foilChannels !== undefined) {
+      if (layer.kind === 'multiFoil') {
+        validateFoilChannels(params.foilChannels ?? []);
+      }
+      layer.params.foilChannels = params.foilChannels;
+    }
+
+    const stockThickness = material.userData.stockThickness as number | undefined;
+    if (layer.params.letterpress && stockThickness !== undefined && layer.params.letterpress.depth > maxImpressionDepth(stockThickness)) {
+      console.warn(`setLayerParams: letterpress depth limited to ${maxImpressionDepth(stockThickness).toFixed(2)} mm by the stock thickness`);
+    }
+
+    MaterialPipeline.applyLayerUniforms(material, layer, layers.layers.indexOf(layer));
+  }
+
+  /**
+   * Set the spot UV varnish finish shared by all spot UV layers
+   *
+   * @param material - The card material to update
+   * @param options - gloss level (0 = satin, 1 = mirror) and raised varnish thickness in mm
+   */
+  static setSpotUVFinish(material: THREE.ShaderMaterial, options: Partial<{ gloss: number; thickness: number }>): void {
+    if (options.gloss !== undefined) {
+      material.uniforms.uGloss.value = THREE.MathUtils.clamp(options.gloss, 0, 1);
+    }
+    if (options.thickness !== undefined) {
+      material.uniforms.uVarnishThickness.value = Math.max(0, options.thickness);
+    }
+  }
+
+  /**
+   * Set the relief depth of emboss/deboss layers
+   * uEmbossStrength holds the signed depth: emboss layers use it as is, deboss layers mirror it
+   *
+   * @param material - The card material to update
+   * @param depth - Relief depth in mm
+   * @param direction - 'deboss' flips the sign (emboss layers sink, deboss layers rise)
+   */
+  static setEmbossDepth(material: THREE.ShaderMaterial, depth: number, direction: 'emboss' | 'deboss' = 'emboss'): void {
+    const magnitude = Math.max(0, depth);
+    material.uniforms.uEmbossStrength.value = direction === 'deboss' ? -magnitude : magnitude;
+  }
+
+  /**
+   * Enable physical emboss/deboss displacement of the card faces
+   * Only meaningful on grid-tessellated geometry (CardGeometry tessellation 'grid')
+   */
+  static setDisplacementEnabled(material: THREE.ShaderMaterial, on: boolean): void {
+    material.uniforms.uDisplacementScale.value = on ? 1.0 : 0.0;
+  }
+
+  /**
+   * Enable or disable every layer of a kind
+   * Only touches uniforms, so toggling never recompiles the shader
+   */
+  static setLayerEnabled(material: THREE.ShaderMaterial, kind: LayerKind, on: boolean): void {
+    MaterialPipeline.forEachLayerOfKind(material, kind, (layer, index) => {
+      layer.enabled = on;
+      material.uniforms[`uLayerEnabled${index}`].value = on ? 1.0 : 0.0;
+    });
+  }
+
+  /**
+   * Set the intensity (0..1) of every layer of a kind
+   */
+  static setLayerIntensity(material: THREE.ShaderMaterial, kind: LayerKind, value: number): void {
+    const intensity = THREE.MathUtils.clamp(value, 0, 1);
+    MaterialPipeline.forEachLayerOfKind(material, kind, (layer, index) => {
+      layer.intensity = intensity;
+      material.uniforms[`uLayerIntensity${index}`].value = intensity;
+    });
+  }
+
   /**
    * Update layer textures on an existing material
-   * 
-   * @param material - The shader material to update
-   * @param options - Partial texture options to update
+   *
+   * @param target - The shader material to update, or a material set
+   * @param options - Artwork and/or layer masks keyed by layer id
+   * @param face - Face to update when target is a material set
    */
   static updateLayerTextures(
-    material: THREE.ShaderMaterial,
+    target: THREE.ShaderMaterial | CardMaterialSet,
     options: Partial<{
       artwork: THREE.Texture;
-      foilMask: THREE.Texture;
-      uvMask: THREE.Texture;
-      embossMap: THREE.Texture;
-    }>
+      masks: Record<string, THREE.Texture>;
+    }>,
+    face: 'front' | 'back' = 'front'
   ): void {
+    const material = target instanceof THREE.ShaderMaterial ? target : target[face];
+
     if (options.artwork !== undefined) {
       material.uniforms.artworkMap.value = options.artwork;
+      MaterialPipeline.updateArtworkTransform(material);
+    }
+
+    if (options.masks !== undefined) {
+      const layers = MaterialPipeline.getLayerStack(material);
+      for (const [id, mask] of Object.entries(options.masks)) {
+        const layer = layers.get(id);
+        if (!layer) {
+          console.warn(`updateLayerTextures: no layer with id ${id}`);
+          continue;
+        }
+        layer.mask = mask;
+        MaterialPipeline.applyLayerUniforms(material, layer, layers.layers.indexOf(layer));
+      }
+    }
+  }
+
+  /**
+   * Recompute the artwork UV transform from the stored placement, card size and artwork aspect
+   * Does nothing until setArtworkPlacement has provided the card size
+   */
+  private static updateArtworkTransform(material: THREE.ShaderMaterial): void {
+    const cardSize = material.userData.cardSize as { width: number; height: number } | undefined;
+    if (!cardSize) {
+      return;
+    }
+
+    const image = material.uniforms.artworkMap.value?.image as { width?: number; height?: number } | undefined;
+    const aspect = image?.width && image?.height ? image.width / image.height : cardSize.width / cardSize.height;
+
+    material.uniforms.uArtworkTransform.value.copy(
+      artworkUVTransform(MaterialPipeline.getArtworkPlacement(material), cardSize.width, cardSize.height, aspect)
+    );
+
+    // The ink spread is stored in artwork UVs
+    MaterialPipeline.forEachLayerOfKind(material, 'letterpress', (layer, index) => {
+      MaterialPipeline.applyLayerUniforms(material, layer, index);
+    });
+  }
+
+  /**
+   * Visit the layers of a kind together with their uniform index
+   */
+  private static forEachLayerOfKind(
+    material: THREE.ShaderMaterial,
+    kind: LayerKind,
+    callback: (layer: PrintLayer, index: number) => void
+  ): void {
+    MaterialPipeline.getLayerStack(material).layers.forEach((layer, index) => {
+      if (layer.kind === kind) {
+        callback(layer, index);
+      }
+    });
+  }
+
+  /**
+   * Switch a material between opaque and premultiplied-alpha transparent rendering
+   * The shaders always output premultiplied colour (alpha is 1 when opaque)
+   */
+  private static setSeeThrough(material: THREE.ShaderMaterial, seeThrough: boolean, seeThroughSide: THREE.Side): void {
+    if (material.transparent === seeThrough) {
+      return;
     }
-    if (options.foilMask !== undefined) {
-      material.uniforms.foilMask.value = options.foilMask;
+    material.transparent = seeThrough;
+    material.premultipliedAlpha = seeThrough;
+    material.side = seeThrough ? seeThroughSide : THREE.FrontSide;
+    material.needsUpdate = true;
+  }
+
+  /**
+   * Write one layer's values into its indexed uniforms (creating them if needed)
+   */
+  private static applyLayerUniforms(material: THREE.ShaderMaterial, layer: PrintLayer, index: number): void {
+    const uniforms = material.uniforms;
+    const set = (name: string, value: unknown) => {
+      if (uniforms[name]) {
+        uniforms[name].value = value;
+      } else {
+        uniforms[name] = { value };
+      }
+    };
+
+    set(`layerMask${index}`, layer.mask);
+    set(`uLayerTexel${index}`, MaterialPipeline.texelSize(layer.mask));
+    set(`uLayerColor${index}`, layer.params.color);
+    set(`uLayerOpacity${index}`, layer.params.opacity);
+    set(`uLayerRoughness${index}`, layer.params.roughness);
+
+    const holographic = layer.params.holographic;
+    set(`uLayerIridescence${index}`, holographic ? 1.0 : 0.0);
+    set(`uLayerHoloPattern${index}`, holographic ? HOLOGRAPHIC_PATTERN_INDEX[holographic.pattern] : 0);
+    set(`uLayerHoloScale${index}`, holographic ? holographic.patternScale : 1.0);
+
+    const letterpress = layer.params.letterpress;
+    set(`uLayerDepth${index}`, letterpress ? MaterialPipeline.impressionDepth(material, letterpress.depth) : 0.0);
+    set(`uLayerSpread${index}`, MaterialPipeline.artworkUVRadius(material, letterpress?.inkSpread ?? 0));
+    set(`uLayerInk${index}`, letterpress && !letterpress.blind ? 1.0 : 0.0);
+
+    if (layer.params.foilChannels) {
+      MaterialPipeline.applyFoilChannelUniforms(material, layer.params.foilChannels, index);
     }
-    if (options.uvMask !== undefined) {
-      material.uniforms.uvMask.value = options.uvMask;
+    set(`uLayerEnabled${index}`, layer.enabled ? 1.0 : 0.0);
+    set(`uLayerIntensity${index}`, layer.intensity);
+  }
+
+  /**
+   * Write the per-channel foils of a multi-channel foil layer (unused channels are inactive)
+   */
+  private static applyFoilChannelUniforms(material: THREE.ShaderMaterial, channels: readonly FoilChannel[], index: number): void {
+    const keys: THREE.Vector4[] = [];
+    const active: number[] = [];
+    const colors: THREE.Color[] = [];
+    const roughness: number[] = [];
+    const iridescence: number[] = [];
+    const holoPatterns: number[] = [];
+    const holoScales: number[] = [];
+
+    for (let c = 0; c < MAX_FOIL_CHANNELS; c++) {
+      const channel = channels[c];
+      const source = channel?.source;
+      const holographic = channel?.foil.holographic;
+
+      if (source instanceof THREE.Color) {
+        // Masks are sampled undecoded, so compare against the key as stored in the file
+        const key = source.getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+        keys.push(new THREE.Vector4(key.r, key.g, key.b, 0));
+      } else {
+        keys.push(new THREE.Vector4(source === 'r' ? 1 : 0, source === 'g' ? 1 : 0, source === 'b' ? 1 : 0, source === 'a' ? 1 : 0));
+      }
+      active.push(channel ? 1.0 : 0.0);
+      colors.push(channel ? channel.foil.color.clone() : new THREE.Color());
+      roughness.push(channel ? channel.foil.roughness : 1.0);
+      iridescence.push(holographic ? 1.0 : 0.0);
+      holoPatterns.push(holographic ? HOLOGRAPHIC_PATTERN_INDEX[holographic.pattern] : 0);
+      holoScales.push(holographic ? holographic.patternScale : 1.0);
     }
-    if (options.embossMap !== undefined) {
-      material.uniforms.embossMap.value = options.embossMap;
+
+    const uniforms = material.uniforms;
+    const set = (name: string, value: unknown) => {
+      if (uniforms[name]) {
+        uniforms[name].value = value;
+      } else {
+        uniforms[name] = { value };
+      }
+    };
+
+    set(`uLayerChannelKey${index}`, keys);
+    set(`uLayerChannelIndexed${index}`, channels[0]?.source instanceof THREE.Color ? 1.0 : 0.0);
+    set(`uLayerChannelActive${index}`, active);
+    set(`uLayerChannelColor${index}`, colors);
+    set(`uLayerChannelRoughness${index}`, roughness);
+    set(`uLayerChannelIridescence${index}`, iridescence);
+    set(`uLayerChannelHoloPattern${index}`, holoPatterns);
+    set(`uLayerChannelHoloScale${index}`, holoScales);
+  }
+
+  /**
+   * Letterpress depth limited by the stock thickness (unlimited until setStockThickness)
+   */
+  private static impressionDepth(material: THREE.ShaderMaterial, depth: number): number {
+    const stockThickness = material.userData.stockThickness as number | undefined;
+    return stockThickness === undefined ? depth : Math.min(depth, maxImpressionDepth(stockThickness));
+  }
+
+  /**
+   * A distance on the card (mm) as a radius in artwork UVs, per axis
+   */
+  private static artworkUVRadius(material: THREE.ShaderMaterial, distance: number): THREE.Vector2 {
+    const cardSize = material.userData.cardSize as { width: number; height: number } | undefined;
+    if (!cardSize) {
+      return new THREE.Vector2();
     }
+
+    const e = (material.uniforms.uArtworkTransform.value as THREE.Matrix3).elements;
+    return new THREE.Vector2(
+      (Math.hypot(e[0], e[1]) * distance) / cardSize.width,
+      (Math.hypot(e[3], e[4]) * distance) / cardSize.height
+    );
+  }
+
+  /**
+   * Size of one texel in UV units (falls back to 1/1024 while the image is not loaded)
+   */
+  private static texelSize(texture: THREE.Texture): THREE.Vector2 {
+    const image = texture.image as { width?: number; height?: number } | undefined;
+    const width = image?.width || 1024;
+    const height = image?.height || 1024;
+    return new THREE.Vector2(1 / width, 1 / height);
+  }
+
+  /**
+   * Generate the vertex shader for a layer stack
+   * Emboss, deboss and letterpress layers displace the faces by their height map
+   */
+  private static buildVertexShader(layers: LayerStack): string {
+    const declarations: string[] = [];
+    const statements: string[] = [];
+
+    layers.layers.forEach((layer, i) => {
+      if (layer.kind !== 'emboss' && layer.kind !== 'deboss' && layer.kind !== 'letterpress') {
+        return;
+      }
+
+      const relief = layer.kind === 'letterpress' ? `-uLayerDepth${i}` : layer.kind === 'deboss' ? '-uEmbossStrength' : 'uEmbossStrength';
+      declarations.push(
+        `uniform sampler2D layerMask${i};`,
+        ...(layer.kind === 'letterpress' ? [`uniform float uLayerDepth${i};`] : []),
+        `uniform float uLayerEnabled${i};`,
+        `uniform float uLayerIntensity${i};`
+      );
+      statements.push(
+        `    displacement += ${relief} * texture2D(layerMask${i}, artUv).r * uLayerEnabled${i} * uLayerIntensity${i};`
+      );
+    });
+
+    return vertexShader
+      .replace(/^[ \t]*#pragma layer_displacement_uniforms/m, declarations.join('\n'))
+      .replace(/^[ \t]*#pragma layer_displacement/m, statements.join('\n'));
+  }
+
+  /**
+   * Generate the fragment shader for a layer stack
+   * Fills the #pragma markers in fragment.glsl with per-layer uniforms and blend code
+   */
+  private static buildFragmentShader(layers: LayerStack): string {
+    const declarations: string[] = [];
+    const statements: string[] = [];
+
+    layers.layers.forEach((layer, i) => {
+      const kind = LAYER_KIND_GLSL[layer.kind];
+      const blend = BLEND_MODE_GLSL[layer.blendMode];
+
+      declarations.push(
+        `uniform sampler2D layerMask${i};`,
+        `uniform vec2 uLayerTexel${i};`,
+        `uniform vec3 uLayerColor${i};`,
+        `uniform float uLayerOpacity${i};`,
+        `uniform float uLayerRoughness${i};`,
+        `uniform float uLayerIridescence${i};`,
+        `uniform float uLayerHoloPattern${i};`,
+        `uniform float uLayerHoloScale${i};`,
+        `uniform float uLayerDepth${i};`,
+        `uniform vec2 uLayerSpread${i};`,
+        `uniform float uLayerInk${i};`,
+        `uniform float uLayerEnabled${i};`,
+        `uniform float uLayerIntensity${i};`
+      );
+
+      if (kind.channels) {
+        declarations.push(
+          `uniform vec4 uLayerChannelKey${i}[${kind.channels}];`,
+          `uniform float uLayerChannelIndexed${i};`,
+          `uniform float uLayerChannelActive${i}[${kind.channels}];`,
+          `uniform vec3 uLayerChannelColor${i}[${kind.channels}];`,
+          `uniform float uLayerChannelRoughness${i}[${kind.channels}];`,
+          `uniform float uLayerChannelIridescence${i}[${kind.channels}];`,
+          `uniform float uLayerChannelHoloPattern${i}[${kind.channels}];`,
+          `uniform float uLayerChannelHoloScale${i}[${kind.channels}];`
+        );
+
+        statements.push(
+          `    // Layer ${i}: ${layer.kind} (${layer.blendMode}), one layer per mask channel`,
+          '    {',
+          `        vec4 layerSample = texture2D(layerMask${i}, artUv);`,
+          `        for (int c = 0; c < ${kind.channels}; c++) {`,
+          `            float m = foilChannelCoverage(layerSample, uLayerChannelKey${i}[c], uLayerChannelIndexed${i}) * uLayerChannelActive${i}[c];`,
+          `            float coverage = ${kind.coverage} * uLayerEnabled${i} * uLayerIntensity${i} * printed;`,
+          ...(kind.color ? [`            surface.albedo = ${blend(kind.color(i), 'coverage', i)};`] : []),
+          ...(kind.surface ? [`            ${kind.surface(i)}`] : []),
+          '        }',
+          '    }'
+        );
+        return;
+      }
+
+      statements.push(
+        `    // Layer ${i}: ${layer.kind} (${layer.blendMode})`,
+        '    {',
+        `        float m = texture2D(layerMask${i}, artUv).r;`,
+        `        float coverage = ${kind.coverage} * uLayerEnabled${i} * uLayerIntensity${i} * printed;`,
+        ...(kind.color ? [`        surface.albedo = ${blend(kind.color(i), 'coverage', i)};`] : []),
+        ...(kind.surface ? [`        ${kind.surface(i)}`] : []),
+        '    }'
+      );
+    });
+
+    return fragmentShader
+      .replace(/^[ \t]*#pragma layer_uniforms/m, declarations.join('\n'))
+      .replace(/^[ \t]*#pragma layer_stack/m, statements.join('\n'));
   }
 
   /**
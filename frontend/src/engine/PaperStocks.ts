@@ -0,0 +1,229 @@
+import * as THREE from 'three';
+
+/**
+ * Micro-surface of a paper stock
+ * smooth: coated/silk board; linen: woven crosshatch; felt: random felt-marked pile;
+ * cotton: soft, irregular fibres; laid: fine laid lines crossed by sparse chain lines
+ */
+export type PaperTexture = 'smooth' | 'linen' | 'felt' | 'cotton' | 'laid';
+
+/**
+ * Stocks in the catalogue
+ */
+export type PaperStockName = 'silk' | 'linen' | 'felt' | 'cotton' | 'laid';
+
+/**
+ * Film laminated over the printed face
+ */
+export type LaminationName = 'none' | 'matte' | 'gloss' | 'softTouch';
+
+/**
+ * Paper stock shading parameters
+ * relief is the height of the surface texture in mm, tileSize the texture repeat in mm,
+ * sheen the soft fibre highlight at grazing angles (0..1), bulk the caliper per grammage in cm³/g
+ * (see gsmToCaliper: denser coated board needs more GSM for the same thickness)
+ */
+export interface PaperStock {
+  color: THREE.Color;
+  texture: PaperTexture;
+  relief: number;
+  tileSize: number;
+  roughness: number;
+  sheen: number;
+  bulk: number;
+}
+
+/**
+ * Lamination shading parameters
+ * coat: 1 where a film covers the face (a clearcoat over ink and stock), roughness of the film,
+ * sheen of velvety films, textureVisibility: how much of the stock texture the film still follows
+ */
+export interface Lamination {
+  coat: number;
+  roughness: number;
+  sheen: number;
+  textureVisibility: number;
+}
+
+const PAPER_STOCKS: Record<PaperStockName, { color: number } & Omit<PaperStock, 'color'>> = {
+  silk: { color: 0xf7f7f4, texture: 'smooth', relief: 0, tileSize: 4, roughness: 0.55, sheen: 0.05, bulk: 1.1 },
+  linen: { color: 0xf8f7f2, texture: 'linen', relief: 0.012, tileSize: 2, roughness: 0.8, sheen: 0.15, bulk: 1.25 },
+  felt: { color: 0xf3efe4, texture: 'felt', relief: 0.05, tileSize: 6, roughness: 0.9, sheen: 0.2, bulk: 1.4 },
+  cotton: { color: 0xf5f0e1, texture: 'cotton', relief: 0.03, tileSize: 8, roughness: 0.95, sheen: 0.3, bulk: 1.5 },
+  laid: { color: 0xf1ead6, texture: 'laid', relief: 0.04, tileSize: 25, roughness: 0.85, sheen: 0.12, bulk: 1.3 }
+};
+
+const LAMINATIONS: Record<LaminationName, Lamination> = {
+  none: { coat: 0, roughness: 1, sheen: 0, textureVisibility: 1 },
+  matte: { coat: 1, roughness: 0.55, sheen: 0, textureVisibility: 0.7 },
+  gloss: { coat: 1, roughness: 0.06, sheen: 0, textureVisibility: 0.5 },
+  softTouch: { coat: 1, roughness: 0.8, sheen: 0.35, textureVisibility: 0.4 }
+};
+
+/**
+ * Resolution of the generated stock normal maps (one tile, square)
+ */
+export const PAPER_NORMAL_MAP_SIZE = 256;
+
+// Generated normal maps are shared by every material using the texture
+const normalMapCache: Map<PaperTexture, THREE.DataTexture> = new Map();
+
+/**
+ * Get the shading parameters of a stock
+ */
+export function getPaperStock(name: PaperStockName): PaperStock {
+  const stock = PAPER_STOCKS[name];
+  if (!stock) {
+    throw new Error(`Unknown paper stock: ${name}`);
+  }
+  return { ...stock, color: new THREE.Color(stock.color) };
+}
+
+/**
+ * Get the shading parameters of a lamination
+ */
+export function getLamination(name: LaminationName): Lamination {
+  const lamination = LAMINATIONS[name];
+  if (!lamination) {
+    throw new Error(`Unknown lamination: ${name}`);
+  }
+  return { ...lamination };
+}
+
+/**
+ * Tiling tangent-space normal map of a stock texture
+ * Slopes are stored per texel of a unit-height field: the shader scales them by the stock's relief
+ * (see paperStock.glsl). Generated once per texture and cached.
+ */
+export function getPaperNormalMap(texture: PaperTexture): THREE.DataTexture {
+  let normalMap = normalMapCache.get(texture);
+  if (!normalMap) {
+    normalMap = createNormalMap(paperHeightField(texture, PAPER_NORMAL_MAP_SIZE), PAPER_NORMAL_MAP_SIZE);
+    normalMapCache.set(texture, normalMap);
+  }
+  return normalMap;
+}
+
+/**
+ * Unit height field (0..1) of one tile of a stock texture, rows along v
+ */
+function paperHeightField(texture: PaperTexture, size: number): Float32Array {
+  const heights = new Float32Array(size * size);
+  if (texture === 'smooth') {
+    return heights;
+  }
+
+  const random = mulberry32(0x5eed);
+  const fine = tileableNoise(size, 32, random);
+  const medium = tileableNoise(size, 16, random);
+  const coarse = tileableNoise(size, 8, random);
+  const streaks = tileableNoise(size, 64, random, 8); // Stretched along u: fibres
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = y * size + x;
+      let h: number;
+
+      if (texture === 'linen') {
+        // Eight warp and weft threads per tile; each thread wobbles a little
+        const warp = threadProfile((y + 2 * fine[i]) / (size / 8));
+        const weft = threadProfile((x + 2 * medium[i]) / (size / 8));
+        h = 0.85 * Math.max(warp, weft) + 0.15 * fine[i];
+      } else if (texture === 'felt') {
+        h = 0.5 * coarse[i] + 0.3 * medium[i] + 0.2 * fine[i];
+      } else if (texture === 'cotton') {
+        h = 0.45 * coarse[i] + 0.25 * medium[i] + 0.3 * streaks[i];
+      } else {
+        // Laid: ~1mm laid lines across, two chain lines per tile
+        const laidLine = 0.5 + 0.5 * Math.cos((2 * Math.PI * y) / (size / 24));
+        const chainDistance = Math.min(x % (size / 2), size / 2 - (x % (size / 2)));
+        const chainLine = Math.exp(-(chainDistance * chainDistance) / 8);
+        h = 0.6 * laidLine + 0.3 * chainLine + 0.1 * fine[i];
+      }
+
+      heights[i] = h;
+    }
+  }
+
+  return heights;
+}
+
+/**
+ * Rounded thread cross-section repeating every unit of t (0 between threads, 1 on top)
+ */
+function threadProfile(t: number): number {
+  return Math.sqrt(Math.abs(Math.sin(Math.PI * t)));
+}
+
+/**
+ * Tileable value noise (0..1) with cells x rows lattice points, smoothly interpolated
+ */
+function tileableNoise(size: number, cells: number, random: () => number, rows: number = cells): Float32Array {
+  const lattice = Array.from({ length: cells * rows }, () => random());
+  const noise = new Float32Array(size * size);
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+
+  for (let y = 0; y < size; y++) {
+    const gy = (y / size) * rows;
+    const y0 = Math.floor(gy);
+    const ty = smooth(gy - y0);
+    for (let x = 0; x < size; x++) {
+      const gx = (x / size) * cells;
+      const x0 = Math.floor(gx);
+      const tx = smooth(gx - x0);
+
+      const at = (cx: number, cy: number) => lattice[(cy % rows) * cells + (cx % cells)];
+      const top = THREE.MathUtils.lerp(at(x0, y0), at(x0 + 1, y0), tx);
+      const bottom = THREE.MathUtils.lerp(at(x0, y0 + 1), at(x0 + 1, y0 + 1), tx);
+      noise[y * size + x] = THREE.MathUtils.lerp(top, bottom, ty);
+    }
+  }
+
+  return noise;
+}
+
+/**
+ * Encode the slopes of a tiling height field (per texel) as a tangent-space normal map
+ */
+function createNormalMap(heights: Float32Array, size: number): THREE.DataTexture {
+  const data = new Uint8Array(size * size * 4);
+  const at = (x: number, y: number) => heights[((y + size) % size) * size + ((x + size) % size)];
+  const normal = new THREE.Vector3();
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = (at(x + 1, y) - at(x - 1, y)) / 2;
+      const dy = (at(x, y + 1) - at(x, y - 1)) / 2;
+      normal.set(-dx, -dy, 1).normalize();
+
+      const i = (y * size + x) * 4;
+      data[i] = Math.round((normal.x * 0.5 + 0.5) * 255);
+      data[i + 1] = Math.round((normal.y * 0.5 + 0.5) * 255);
+      data[i + 2] = Math.round((normal.z * 0.5 + 0.5) * 255);
+      data[i + 3] = 255;
+    }
+  }
+
+  const texture = new THREE.DataTexture(data, size, size);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.generateMipmaps = true;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Small seeded PRNG, so the generated textures are the same on every load
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
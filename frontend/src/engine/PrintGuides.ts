@@ -0,0 +1,269 @@
+import * as THREE from 'three';
+// Import shaders without ?raw so vite-plugin-glsl can process #include directives
+import guideVertexShader from '../shaders/guideVertex.glsl';
+import bleedFragmentShader from '../shaders/bleedFragment.glsl';
+import { CardGeometry } from './CardGeometry.js';
+import { OutlineContours, offsetContour } from './CardOutline.js';
+import { CardMaterialSet, MaterialPipeline } from './MaterialPipeline.js';
+
+// Guides float this far (mm) off the faces so they never z-fight with the card
+const GUIDE_LIFT = 0.05;
+
+// Longer side of the safe zone mask in pixels
+const SAFE_ZONE_MASK_SIZE = 1024;
+
+const TRIM_LINE_COLOR = 0x00a0ff;
+const SAFE_LINE_COLOR = 0x00c060;
+const BLEED_AREA_OPACITY = 0.55;
+
+/**
+ * Print spec checked by the guides
+ * bleed: artwork required beyond the trim (mm per side); safeMargin: inset from the trim and from
+ * cutouts that important content must stay clear of (mm); background: artwork colour that counts as
+ * empty (white if not set)
+ */
+export interface PrintGuideOptions {
+  bleed: number;
+  safeMargin: number;
+  background?: THREE.Color;
+}
+
+export const DEFAULT_PRINT_GUIDE_OPTIONS: PrintGuideOptions = {
+  bleed: 3,
+  safeMargin: 3
+};
+
+type PrintedFace = 'front' | 'back';
+
+/**
+ * Print Guides
+ * Prepress overlay for the 3D preview, on both printed faces: the trim line, the bleed area outside
+ * the card (red where the artwork does not reach), the safe-zone inset, and a hatch over artwork
+ * content inside the unsafe band.
+ *
+ * Add `object` to the card mesh and call update() whenever the card geometry is rebuilt.
+ */
+export class PrintGuides {
+  readonly object = new THREE.Group();
+  private cardGeometry: CardGeometry;
+  private materials: CardMaterialSet;
+  private options: PrintGuideOptions;
+  private enabled: boolean = false;
+  private safeZoneMasks: Partial<Record<PrintedFace, THREE.CanvasTexture>> = {};
+
+  /**
+   * @param cardGeometry - Card the guides follow
+   * @param materials - Card materials (the bleed area shows their artwork, the faces get the highlight)
+   * @param options - Print spec (3mm bleed and safe margin if not provided)
+   */
+  constructor(cardGeometry: CardGeometry, materials: CardMaterialSet, options: Partial<PrintGuideOptions> = {}) {
+    this.cardGeometry = cardGeometry;
+    this.materials = materials;
+    this.options = PrintGuides.validateOptions({ ...DEFAULT_PRINT_GUIDE_OPTIONS, ...options });
+    this.object.name = 'printGuides';
+    this.object.visible = false;
+    this.update();
+  }
+
+  /**
+   * Show or hide the guides and the unsafe-band highlight
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.object.visible = enabled;
+    this.applyHighlight();
+  }
+
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Change the print spec (missing fields keep their current value)
+   */
+  setOptions(options: Partial<PrintGuideOptions>): void {
+    this.options = PrintGuides.validateOptions({ ...this.options, ...options });
+    this.update();
+  }
+
+  getOptions(): PrintGuideOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Rebuild the guides for the current card outline, size and thickness
+   */
+  update(): void {
+    this.disposeGuides();
+
+    const contours = this.cardGeometry.contours;
+    if (contours.outer.length < 3) {
+      return;
+    }
+
+    for (const face of ['front', 'back'] as PrintedFace[]) {
+      this.buildFaceGuides(face, contours);
+      this.safeZoneMasks[face] = this.buildSafeZoneMask(face, contours);
+    }
+
+    this.applyHighlight();
+  }
+
+  dispose(): void {
+    this.disposeGuides();
+    this.object.removeFromParent();
+    this.forEachFace(face => MaterialPipeline.setPrintGuides(this.materials[face], null));
+  }
+
+  /**
+   * Trim line, safe-zone line and bleed area of one face
+   */
+  private buildFaceGuides(face: PrintedFace, contours: OutlineContours): void {
+    const { width, height } = this.cardGeometry.size;
+    const z = (face === 'front' ? 1 : -1) * (this.cardGeometry.displayThickness / 2 + GUIDE_LIFT);
+    const edges = [contours.outer, ...contours.holes];
+
+    const trimMaterial = new THREE.LineBasicMaterial({ color: TRIM_LINE_COLOR });
+    const safeMaterial = new THREE.LineDashedMaterial({ color: SAFE_LINE_COLOR, dashSize: 1, gapSize: 0.75 });
+
+    for (const edge of edges) {
+      this.object.add(PrintGuides.createLine(edge, z, trimMaterial));
+      this.object.add(PrintGuides.createLine(offsetContour(edge, -this.options.safeMargin), z, safeMaterial).computeLineDistances());
+    }
+
+    if (this.options.bleed <= 0) {
+      return;
+    }
+
+    // Ring between the trim and the bleed line, with card UVs so it continues the face's artwork
+    const outer = offsetContour(contours.outer, this.options.bleed);
+    const trim = contours.outer;
+    const points = [...outer, ...trim];
+    const mirror = face === 'back' ? -1 : 1;
+
+    const positions: number[] = [];
+    const uvs: number[] = [];
+    for (const point of points) {
+      positions.push(point.x, point.y, z);
+      uvs.push(0.5 + (mirror * point.x) / width, 0.5 + point.y / height);
+    }
+
+    // Wind every triangle towards the face's outside (the overlay is single-sided)
+    const indices: number[] = [];
+    for (const [a, b, c] of THREE.ShapeUtils.triangulateShape(outer, [trim])) {
+      const ccw = THREE.ShapeUtils.area([points[a], points[b], points[c]]) > 0;
+      indices.push(...(ccw === (face === 'front') ? [a, b, c] : [a, c, b]));
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    geometry.setIndex(indices);
+
+    // Shares the face's artwork uniforms, so the bleed follows artwork swaps and placement
+    const faceUniforms = this.materials[face].uniforms;
+    const material = new THREE.ShaderMaterial({
+      vertexShader: guideVertexShader,
+      fragmentShader: bleedFragmentShader,
+      uniforms: {
+        artworkMap: faceUniforms.artworkMap,
+        uArtworkTransform: faceUniforms.uArtworkTransform,
+        uOpacity: { value: BLEED_AREA_OPACITY }
+      },
+      transparent: true,
+      depthWrite: false
+    });
+
+    this.object.add(new THREE.Mesh(geometry, material));
+  }
+
+  /**
+   * Safe zone mask of one face in its card UVs: white where content is safe,
+   * black in the unsafe band (within safeMargin of the trim or a cutout) and off the card
+   */
+  private buildSafeZoneMask(face: PrintedFace, contours: OutlineContours): THREE.CanvasTexture {
+    const { width, height } = this.cardGeometry.size;
+    const pixelsPerMm = SAFE_ZONE_MASK_SIZE / Math.max(width, height);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil(width * pixelsPerMm));
+    canvas.height = Math.max(1, Math.ceil(height * pixelsPerMm));
+    const ctx = canvas.getContext('2d')!;
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Card mm (centred, +Y up) to canvas pixels; the back face's UVs are mirrored
+    const mirror = face === 'back' ? -1 : 1;
+    ctx.setTransform((mirror * canvas.width) / width, 0, 0, -canvas.height / height, canvas.width / 2, canvas.height / 2);
+
+    ctx.beginPath();
+    for (const contour of [contours.outer, ...contours.holes]) {
+      contour.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      ctx.closePath();
+    }
+    ctx.fillStyle = '#fff';
+    ctx.fill('evenodd');
+
+    // A stroke centred on every edge blanks safeMargin on the card side
+    if (this.options.safeMargin > 0) {
+      ctx.lineWidth = 2 * this.options.safeMargin;
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = '#000';
+      ctx.stroke();
+    }
+
+    return new THREE.CanvasTexture(canvas);
+  }
+
+  /**
+   * Push the safe zone masks and the on/off state into the face materials
+   */
+  private applyHighlight(): void {
+    this.forEachFace(face => {
+      const safeZoneMask = this.safeZoneMasks[face];
+      MaterialPipeline.setPrintGuides(
+        this.materials[face],
+        this.enabled && safeZoneMask ? { safeZoneMask, background: this.options.background } : null
+      );
+    });
+  }
+
+  private forEachFace(callback: (face: PrintedFace) => void): void {
+    callback('front');
+    callback('back');
+  }
+
+  /**
+   * Remove and free the guide objects and masks
+   */
+  private disposeGuides(): void {
+    for (const child of [...this.object.children]) {
+      const guide = child as THREE.Mesh | THREE.Line;
+      guide.geometry.dispose();
+      (guide.material as THREE.Material).dispose();
+      this.object.remove(guide);
+    }
+
+    this.forEachFace(face => this.safeZoneMasks[face]?.dispose());
+    this.safeZoneMasks = {};
+  }
+
+  /**
+   * Closed polyline in the plane z
+   */
+  private static createLine(contour: THREE.Vector2[], z: number, material: THREE.LineBasicMaterial | THREE.LineDashedMaterial): THREE.LineLoop {
+    const geometry = new THREE.BufferGeometry().setFromPoints(contour.map(point => new THREE.Vector3(point.x, point.y, z)));
+    return new THREE.LineLoop(geometry, material);
+  }
+
+  /**
+   * Throw if the bleed or safe margin is not a non-negative number
+   */
+  private static validateOptions(options: PrintGuideOptions): PrintGuideOptions {
+    if (!(options.bleed >= 0) || !(options.safeMargin >= 0)) {
+      throw new Error('Print guide bleed and safe margin must be non-negative (mm)');
+    }
+    return options;
+  }
+}
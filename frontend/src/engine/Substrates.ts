@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+
+/**
+ * What the card is made of
+ * paper: board from the paper stock catalogue (see PaperStocks); plastic: PVC sheet; metal: steel sheet
+ */
+export type SubstrateKind = 'paper' | 'plastic' | 'metal';
+
+/**
+ * Base materials offered to customers
+ */
+export type SubstrateName = 'paper' | 'clearPVC' | 'frostedPVC' | 'brushedSteel';
+
+/**
+ * Substrate shading parameters
+ * color: plastic tint or metal reflectance (F0, linear), ignored for paper (the stock sets it);
+ * transmission: share of light passing through the bare sheet (0 = opaque);
+ * frost: how much of the transmitted light is scattered (0 = see-through, 1 = milky);
+ * ior: index of refraction (sets the Fresnel split between reflection and transmission);
+ * anisotropy: stretch of the highlights along the brushing direction (card X), 0..1
+ */
+export interface Substrate {
+  kind: SubstrateKind;
+  color: THREE.Color;
+  roughness: number;
+  transmission: number;
+  frost: number;
+  ior: number;
+  anisotropy: number;
+}
+
+const SUBSTRATES: Record<SubstrateName, { kind: SubstrateKind; color: [number, number, number] } & Omit<Substrate, 'kind' | 'color'>> = {
+  paper: { kind: 'paper', color: [1, 1, 1], roughness: 0.85, transmission: 0, frost: 0, ior: 1.5, anisotropy: 0 },
+  clearPVC: { kind: 'plastic', color: [0.93, 0.97, 0.96], roughness: 0.05, transmission: 0.92, frost: 0, ior: 1.54, anisotropy: 0 },
+  frostedPVC: { kind: 'plastic', color: [0.95, 0.97, 0.97], roughness: 0.45, transmission: 0.85, frost: 0.85, ior: 1.54, anisotropy: 0 },
+  // Stainless steel reflectance
+  brushedSteel: { kind: 'metal', color: [0.67, 0.64, 0.6], roughness: 0.3, transmission: 0, frost: 0, ior: 1.5, anisotropy: 0.75 }
+};
+
+/**
+ * Get the shading parameters of a substrate
+ */
+export function getSubstrate(name: SubstrateName): Substrate {
+  const substrate = SUBSTRATES[name];
+  if (!substrate) {
+    throw new Error(`Unknown substrate: ${name}`);
+  }
+  return { ...substrate, color: new THREE.Color().fromArray(substrate.color) };
+}
@@ -0,0 +1,75 @@
+/**
+ * Units
+ * The engine works in millimetres at real scale: 1 scene unit = 1 mm.
+ * Card stock is sold by caliper points (thousandths of an inch, not typographic points)
+ * and by grammage (GSM); these helpers convert between them.
+ */
+
+export const MM_PER_INCH = 25.4;
+
+/**
+ * One caliper point (pt) is 0.001 inch, so 16pt stock is about 0.41 mm
+ */
+export const MM_PER_CALIPER_POINT = MM_PER_INCH / 1000;
+
+export function inchesToMm(inches: number): number {
+  return inches * MM_PER_INCH;
+}
+
+export function mmToInches(mm: number): number {
+  return mm / MM_PER_INCH;
+}
+
+/**
+ * Caliper points (thousandths of an inch) to mm
+ */
+export function ptToMm(pt: number): number {
+  return pt * MM_PER_CALIPER_POINT;
+}
+
+/**
+ * mm to caliper points (thousandths of an inch)
+ */
+export function mmToPt(mm: number): number {
+  return mm / MM_PER_CALIPER_POINT;
+}
+
+/**
+ * Caliper in mm of a sheet of the given grammage
+ *
+ * @param gsm - Grammage (g/m²)
+ * @param bulk - Stock bulk (cm³/g): about 0.8 for coated board up to 1.5+ for soft cotton
+ */
+export function gsmToCaliper(gsm: number, bulk: number): number {
+  if (!(gsm > 0) || !(bulk > 0)) {
+    throw new Error('Grammage and bulk must be positive');
+  }
+  // g/m² × cm³/g = cm³/m² = µm
+  return (gsm * bulk) / 1000;
+}
+
+/**
+ * Grammage (g/m²) of a sheet with the given caliper (mm)
+ *
+ * @param bulk - Stock bulk (cm³/g)
+ */
+export function caliperToGsm(caliper: number, bulk: number): number {
+  if (!(caliper > 0) || !(bulk > 0)) {
+    throw new Error('Caliper and bulk must be positive');
+  }
+  return (caliper * 1000) / bulk;
+}
+
+/**
+ * Length readout in both units, e.g. "88.9 mm (3.50 in)"
+ */
+export function formatLength(mm: number): string {
+  return `${mm.toFixed(1)} mm (${mmToInches(mm).toFixed(2)} in)`;
+}
+
+/**
+ * Stock thickness readout in both units, e.g. "16pt (0.41 mm)"
+ */
+export function formatCaliper(mm: number): string {
+  return `${Math.round(mmToPt(mm))}pt (${mm.toFixed(2)} mm)`;
+}
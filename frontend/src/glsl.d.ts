@@ -2,4 +2,8 @@ declare module "*.glsl?raw" {
     const content: string;
     export default content;
   }
-  
\ No newline at end of file
+
+declare module "*.glsl" {
+    const content: string;
+    export default content;
+  }
@@ -1,4 +1,5 @@
 import { TestHarness } from './test/TestHarness.js';
+import { readConfigurationLink } from './config/ConfigurationLink.js';
 
 /**
  * Main Application Entry Point
@@ -18,7 +19,13 @@ async function init() {
     // - Mesh creation and scene setup
     // - Render loop
     // - Development controls
-    await TestHarness.init();
+    // - Configuration (restored from a shared link)
+    // A shared link (#card=...) opens that card; an unreadable link falls back to the default card
+    const link = readConfigurationLink(window.location);
+    if (link) {
+      console.log(`Restoring card from link (format v${link.version}${link.warnings.length ? `, ${link.warnings.length} entries skipped` : ''})`);
+    }
+    await TestHarness.init(link?.state);
 
     console.log('Application initialized successfully');
   } catch (error) {
@@ -1,7 +1,35 @@
 import * as THREE from 'three';
 import { RGBELoader } from 'three/examples/jsm/loaders/RGBELoader.js';
+import { LUTCubeLoader, LUTCubeResult } from 'three/examples/jsm/loaders/LUTCubeLoader.js';
 import { TextureLoader } from 'three';
 
+/**
+ * What a loaded image is used for
+ * color: artwork shown as colour (sRGB decoded); mask: coverage (linear, as stored);
+ * height: emboss/letterpress relief (linear, sampled texel by texel); normal: tangent-space normals (linear)
+ */
+export type TextureRole = 'color' | 'mask' | 'height' | 'normal';
+
+/**
+ * Sampling settings per role
+ * anisotropy is capped by what the renderer supports (see setMaxAnisotropy)
+ */
+interface TextureRoleSettings {
+  colorSpace: THREE.ColorSpace;
+  minFilter: THREE.MinificationTextureFilter;
+  magFilter: THREE.MagnificationTextureFilter;
+  generateMipmaps: boolean;
+  anisotropy: number;
+}
+
+const TEXTURE_ROLES: Record<TextureRole, TextureRoleSettings> = {
+  color: { colorSpace: THREE.SRGBColorSpace, minFilter: THREE.LinearMipmapLinearFilter, magFilter: THREE.LinearFilter, generateMipmaps: true, anisotropy: 8 },
+  mask: { colorSpace: THREE.NoColorSpace, minFilter: THREE.LinearMipmapLinearFilter, magFilter: THREE.LinearFilter, generateMipmaps: true, anisotropy: 4 },
+  // No mipmaps: the Sobel filter steps one full-resolution texel at a time
+  height: { colorSpace: THREE.NoColorSpace, minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter, generateMipmaps: false, anisotropy: 1 },
+  normal: { colorSpace: THREE.NoColorSpace, minFilter: THREE.LinearMipmapLinearFilter, magFilter: THREE.LinearFilter, generateMipmaps: true, anisotropy: 8 }
+};
+
 /**
  * Resource Manager
  * Centralized GPU asset loading
@@ -10,7 +38,10 @@ import { TextureLoader } from 'three';
 export class ResourceManager {
   private static hdrLoader: RGBELoader | null = null;
   private static textureLoader: TextureLoader | null = null;
+  private static lutLoader: LUTCubeLoader | null = null;
   private static loadedTextures: Map<string, THREE.Texture> = new Map();
+  private static loadedLUTs: Map<string, LUTCubeResult> = new Map();
+  private static maxAnisotropy: number = 1;
   private static isInitialized: boolean = false;
 
   /**
@@ -25,6 +56,7 @@ export class ResourceManager {
     // Initialize loaders
     this.hdrLoader = new RGBELoader();
     this.textureLoader = new TextureLoader();
+    this.lutLoader = new LUTCubeLoader();
 
     this.isInitialized = true;
   }
@@ -59,17 +91,37 @@ export class ResourceManager {
   }
 
   /**
-   * Load texture using TextureLoader
+   * Set the highest anisotropic filtering level the renderer supports
+   * Textures loaded afterwards use up to this level (their role decides how much)
+   */
+  static setMaxAnisotropy(maxAnisotropy: number): void {
+    this.maxAnisotropy = Math.max(1, maxAnisotropy);
+  }
+
+  /**
+   * Load texture using TextureLoader, set up for its role
+   * Cached per role, so one image can be loaded as e.g. both mask and height map
    * Returns Promise<THREE.Texture>
    */
-  static async loadTexture(path: string): Promise<THREE.Texture> {
+  static async loadTexture(path: string, role: TextureRole = 'color'): Promise<THREE.Texture> {
     if (!this.isInitialized) {
       await this.init();
     }
 
     // Check cache
-    if (this.loadedTextures.has(path)) {
-      return this.loadedTextures.get(path)!;
+    const key = `${role}:${path}`;
+    if (this.loadedTextures.has(key)) {
+      return this.loadedTextures.get(key)!;
+    }
+
+    // Same image already loaded for another role: share its source
+    for (const other of Object.keys(TEXTURE_ROLES) as TextureRole[]) {
+      const loaded = this.loadedTextures.get(`${other}:${path}`);
+      if (loaded) {
+        const texture = this.applyRole(loaded.clone(), role);
+        this.loadedTextures.set(key, texture);
+        return texture;
+      }
     }
 
     if (!this.textureLoader) {
@@ -81,8 +133,8 @@ export class ResourceManager {
         path,
         (texture) => {
           texture.flipY = false; // For masks and artwork
-          texture.colorSpace = THREE.SRGBColorSpace;
-          this.loadedTextures.set(path, texture);
+          this.applyRole(texture, role);
+          this.loadedTextures.set(key, texture);
           resolve(texture);
         },
         undefined,
@@ -95,11 +147,61 @@ export class ResourceManager {
   }
 
   /**
-   * Load mask texture using TextureLoader
+   * Load mask texture (coverage, linear)
    * Returns Promise<THREE.Texture>
    */
   static async loadMask(path: string): Promise<THREE.Texture> {
-    return this.loadTexture(path);
+    return this.loadTexture(path, 'mask');
+  }
+
+  /**
+   * Load height map (emboss/deboss relief, linear, full resolution)
+   * Returns Promise<THREE.Texture>
+   */
+  static async loadHeightMap(path: string): Promise<THREE.Texture> {
+    return this.loadTexture(path, 'height');
+  }
+
+  /**
+   * Load tangent-space normal map (linear)
+   * Returns Promise<THREE.Texture>
+   */
+  static async loadNormalMap(path: string): Promise<THREE.Texture> {
+    return this.loadTexture(path, 'normal');
+  }
+
+  /**
+   * Load a 3D colour LUT from an Adobe .cube file (e.g. a press profile soft proof)
+   * Returns Promise<LUTCubeResult>
+   */
+  static async loadCubeLUT(path: string): Promise<LUTCubeResult> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    // Check cache
+    if (this.loadedLUTs.has(path)) {
+      return this.loadedLUTs.get(path)!;
+    }
+
+    if (!this.lutLoader) {
+      throw new Error('ResourceManager not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.lutLoader!.load(
+        path,
+        (lut) => {
+          this.loadedLUTs.set(path, lut);
+          resolve(lut);
+        },
+        undefined,
+        (error) => {
+          console.error(`Failed to load LUT ${path}:`, error);
+          reject(error);
+        }
+      );
+    });
   }
 
   /**
@@ -108,7 +210,8 @@ export class ResourceManager {
   static createPlaceholderTexture(
     width: number = 512,
     height: number = 512,
-    color: THREE.Color = new THREE.Color(0.5, 0.5, 0.5)
+    color: THREE.Color = new THREE.Color(0.5, 0.5, 0.5),
+    role: TextureRole = 'color'
   ): THREE.Texture {
     const canvas = document.createElement('canvas');
     canvas.width = width;
@@ -118,8 +221,20 @@ export class ResourceManager {
     ctx.fillStyle = `rgb(${Math.floor(color.r * 255)}, ${Math.floor(color.g * 255)}, ${Math.floor(color.b * 255)})`;
     ctx.fillRect(0, 0, width, height);
 
-    const texture = new THREE.CanvasTexture(canvas);
-    texture.colorSpace = THREE.SRGBColorSpace;
+    return this.applyRole(new THREE.CanvasTexture(canvas), role);
+  }
+
+  /**
+   * Apply a role's colour space and sampling settings to a texture
+   */
+  private static applyRole(texture: THREE.Texture, role: TextureRole): THREE.Texture {
+    const settings = TEXTURE_ROLES[role];
+    texture.colorSpace = settings.colorSpace;
+    texture.minFilter = settings.minFilter;
+    texture.magFilter = settings.magFilter;
+    texture.generateMipmaps = settings.generateMipmaps;
+    texture.anisotropy = Math.min(settings.anisotropy, this.maxAnisotropy);
+    texture.needsUpdate = true;
     return texture;
   }
 
@@ -133,9 +248,16 @@ export class ResourceManager {
     }
     this.loadedTextures.clear();
 
+    for (const lut of this.loadedLUTs.values()) {
+      lut.texture.dispose();
+      lut.texture3D.dispose();
+    }
+    this.loadedLUTs.clear();
+
     // Reset loaders
     this.hdrLoader = null;
     this.textureLoader = null;
+    this.lutLoader = null;
     this.isInitialized = false;
   }
 }
@@ -0,0 +1,15 @@
+// Artwork Placement
+// Maps card UVs (0..1 over the card's bounding box) to artwork UVs: fit, offset, rotation and scale.
+// The artwork and every layer mask use the same transform, so the layers stay in register.
+
+uniform mat3 uArtworkTransform;
+
+vec2 placeArtwork(vec2 cardUv) {
+    return (uArtworkTransform * vec3(cardUv, 1.0)).xy;
+}
+
+// 1 where the artwork covers the card, 0 where the unprinted stock shows (contain, offsets)
+float artworkCoverage(vec2 artworkUv) {
+    vec2 inside = step(vec2(0.0), artworkUv) * step(artworkUv, vec2(1.0));
+    return inside.x * inside.y;
+}
@@ -0,0 +1,24 @@
+precision highp float;
+
+// Bleed Area
+// Shows the artwork's bleed beyond the trim as a translucent ghost.
+// Where the artwork does not reach into the bleed, the missing bleed is shown in red.
+
+varying vec2 vUv;
+
+uniform sampler2D artworkMap;
+uniform float uOpacity;
+
+#include artworkPlacement.glsl
+
+const vec3 MISSING_BLEED = vec3(0.9, 0.05, 0.05);
+
+void main() {
+    vec2 artUv = placeArtwork(vUv);
+    float printed = artworkCoverage(artUv);
+    vec3 artwork = texture2D(artworkMap, artUv).rgb;
+
+    gl_FragColor = vec4(mix(MISSING_BLEED, artwork, printed), uOpacity);
+
+    #include <colorspace_fragment>
+}
@@ -0,0 +1,91 @@
+precision highp float;
+
+// Card Edge
+// Shades the side walls: the bare plies of the stock, a painted edge or a foiled edge.
+// Plastic and metal cards are a single ply of the sheet: a polished steel edge, or a PVC edge
+// that looks denser than the faces (light travelling along the sheet is piped out at the edge).
+// vUv.x runs along the perimeter, vUv.y across the thickness (0 = front face, 1 = back face).
+
+#define MAX_PLIES 4
+
+varying vec2 vUv;
+varying vec3 vNormal;
+varying vec3 vViewPosition;
+
+uniform float uBaseRoughness;
+
+uniform vec3 uPlyColors[MAX_PLIES];
+uniform float uPlyBounds[MAX_PLIES]; // Cumulative ply boundary (fraction of thickness from the front)
+uniform int uPlyCount;
+
+uniform float uEdgeMode;      // 0 = bare stock, 1 = painted, 2 = foil
+uniform vec3 uEdgeColor;      // Paint colour, or foil reflectance (F0)
+uniform float uEdgeRoughness;
+uniform float uEdgeMetal;     // 1 for metal cards
+uniform float uEdgeOpacity;   // Below 1 for clear and frosted plastic
+
+#include <common>
+#include <lights_pars_begin>
+#include <cube_uv_reflection_fragment>
+
+#include printSurface.glsl
+#include holographicFoil.glsl
+#include pbrLighting.glsl
+
+// Colour of the ply at a position across the thickness, with a faint glue line between plies
+vec3 plyColor(float across) {
+    vec3 color = uPlyColors[0];
+    float seam = 0.0;
+    float seamWidth = fwidth(across) * 1.5;
+
+    for (int i = 1; i < MAX_PLIES; i++) {
+        if (i >= uPlyCount) {
+            break;
+        }
+        float boundary = uPlyBounds[i - 1];
+        if (across > boundary) {
+            color = uPlyColors[i];
+        }
+        seam = max(seam, 1.0 - smoothstep(0.0, seamWidth, abs(across - boundary)));
+    }
+
+    return color * (1.0 - 0.35 * seam);
+}
+
+void main() {
+    float faceDirection = gl_FrontFacing ? 1.0 : -1.0;
+
+    PrintSurface surface;
+    surface.albedo = plyColor(vUv.y);
+    surface.metalness = 0.0;
+    surface.roughness = uBaseRoughness;
+    surface.normal = normalize(vNormal) * faceDirection;
+    surface.iridescence = 0.0;
+    surface.filmThickness = 0.0;
+    surface.clearcoat = 0.0;
+    surface.clearcoatRoughness = 1.0;
+    surface.clearcoatNormal = surface.normal;
+    surface.sheenColor = vec3(0.0);
+    surface.sheenRoughness = 1.0;
+    surface.opacity = 1.0;
+    surface.anisotropy = 0.0;
+    surface.anisotropyTangent = vec3(1.0, 0.0, 0.0);
+
+    // Paint and foil cover the whole edge, hiding the plies
+    float painted = step(0.5, uEdgeMode) * (1.0 - step(1.5, uEdgeMode));
+    float foiled = step(1.5, uEdgeMode);
+    float covered = painted + foiled;
+
+    surface.albedo = mix(surface.albedo, uEdgeColor, covered);
+    surface.roughness = mix(surface.roughness, uEdgeRoughness, covered);
+    surface.metalness = mix(uEdgeMetal * (1.0 - painted), 1.0, foiled);
+    surface.opacity = mix(uEdgeOpacity, 1.0, covered);
+
+    vec3 color = shadePrintSurface(surface, normalize(vViewPosition));
+
+    // Premultiplied, like the faces
+    gl_FragColor = vec4(color, surface.opacity);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+}
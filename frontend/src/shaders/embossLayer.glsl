@@ -0,0 +1,28 @@
+// Emboss Layer Shader
+// Turns the emboss height map into per-pixel normals (Sobel filter in the shader),
+// so raised and recessed areas shade correctly as the light moves.
+// Height map: 0 = flat stock, 1 = full relief depth.
+
+// Height gradient (dh/du, dh/dv) of a height map in UV units
+vec2 sobelHeightGradient(sampler2D heightMap, vec2 uv, vec2 texel) {
+    float tl = texture2D(heightMap, uv + vec2(-texel.x, texel.y)).r;
+    float t = texture2D(heightMap, uv + vec2(0.0, texel.y)).r;
+    float tr = texture2D(heightMap, uv + vec2(texel.x, texel.y)).r;
+    float l = texture2D(heightMap, uv + vec2(-texel.x, 0.0)).r;
+    float r = texture2D(heightMap, uv + vec2(texel.x, 0.0)).r;
+    float bl = texture2D(heightMap, uv + vec2(-texel.x, -texel.y)).r;
+    float b = texture2D(heightMap, uv + vec2(0.0, -texel.y)).r;
+    float br = texture2D(heightMap, uv + vec2(texel.x, -texel.y)).r;
+
+    float gx = (tr + 2.0 * r + br) - (tl + 2.0 * l + bl);
+    float gy = (tl + 2.0 * t + tr) - (bl + 2.0 * b + br);
+
+    return vec2(gx, gy) / (8.0 * texel);
+}
+
+// relief: signed depth in mm (positive raises, negative recesses); uv: the height map's UVs
+void applyEmbossSurface(inout PrintSurface surface, vec2 heightGradient, float relief, float coverage, vec2 uv) {
+    vec2 gradient = heightGradient * relief * coverage;
+    surface.normal = perturbNormalByGradient(surface.normal, gradient, uv);
+    surface.clearcoatNormal = perturbNormalByGradient(surface.clearcoatNormal, gradient, uv);
+}
@@ -0,0 +1,25 @@
+// Foil Layer Shader
+// Hot-stamped metallic foil: the masked area becomes a polished metal.
+// The foil colour is blended into the albedo by the layer stack and acts as
+// the metal's Fresnel reflectance (F0) in pbrLighting.glsl.
+// Foil is stamped on top of any lamination, so it removes the film's clearcoat; it is opaque.
+
+void applyFoilSurface(inout PrintSurface surface, float coverage, float roughness) {
+    surface.metalness = mix(surface.metalness, 1.0, coverage);
+    surface.roughness = mix(surface.roughness, roughness, coverage);
+    surface.clearcoat *= 1.0 - coverage;
+    surface.opacity = max(surface.opacity, coverage);
+    surface.anisotropy *= 1.0 - coverage;
+}
+
+// Multi-channel foil masks carry several foils in one texture, either one per RGBA channel
+// or as indexed spot colours (each foil painted in its own key colour)
+const float FOIL_KEY_TOLERANCE = 0.08;
+
+// Coverage of one foil of a multi-channel mask
+// key: one-hot channel selector, or the key colour (rgb) when indexed is 1
+float foilChannelCoverage(vec4 mask, vec4 key, float indexed) {
+    float channel = dot(mask, key);
+    float spot = (1.0 - smoothstep(FOIL_KEY_TOLERANCE, 2.0 * FOIL_KEY_TOLERANCE, distance(mask.rgb, key.rgb))) * mask.a;
+    return mix(channel, spot, indexed);
+}
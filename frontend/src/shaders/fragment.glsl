@@ -2,28 +2,78 @@ precision highp float;
 
 varying vec2 vUv;
 varying vec3 vNormal;
+varying vec3 vViewPosition;
 
 uniform sampler2D artworkMap;
-uniform sampler2D foilMask;
-uniform sampler2D uvMask;
-uniform sampler2D embossMap;
 
 uniform float uGloss;
-uniform float uEmbossStrength;
+uniform float uVarnishThickness;
+uniform float uEmbossStrength; // Signed relief in mm (negative = deboss)
+uniform float uBaseRoughness;
+uniform vec3 uStockColor; // Paper colour: shows where the artwork does not cover the card, tints the ink
 
+#include <common>
+#include <lights_pars_begin>
+#include <cube_uv_reflection_fragment>
+
+#include artworkPlacement.glsl
+#include printGuides.glsl
+#include printProof.glsl
+#include printSurface.glsl
+#include paperStock.glsl
+#include holographicFoil.glsl
+#include pbrLighting.glsl
+#include substrate.glsl
 #include layerBlend.glsl
-#include foilLayerMock.glsl
-#include uvLayerMock.glsl
-#include embossLayerMock.glsl
+#include foilLayer.glsl
+#include spotUVLayer.glsl
+#include embossLayer.glsl
+#include letterpressLayer.glsl
+#include whiteInkLayer.glsl
+
+// Per-layer uniforms are generated by MaterialPipeline from the LayerStack
+#pragma layer_uniforms
 
 void main() {
-    vec4 baseColor = texture2D(artworkMap, vUv);
+    // Artwork and masks share the placement transform
+    vec2 artUv = placeArtwork(vUv);
+    float printed = artworkCoverage(artUv);
+    vec4 baseColor = texture2D(artworkMap, artUv);
+    vec3 proofColor = proofArtworkColor(baseColor.rgb);
+    vec3 inkColor = mix(vec3(1.0), proofColor, printed); // Ink filters the substrate under it
+    float faceDirection = gl_FrontFacing ? 1.0 : -1.0;
+
+    PrintSurface surface;
+    surface.albedo = uStockColor * inkColor;
+    surface.metalness = 0.0;
+    surface.roughness = uBaseRoughness;
+    surface.normal = normalize(vNormal) * faceDirection;
+    surface.iridescence = 0.0;
+    surface.filmThickness = 0.0;
+    surface.clearcoat = 0.0;
+    surface.clearcoatRoughness = 1.0;
+    surface.clearcoatNormal = surface.normal;
+    surface.sheenColor = vec3(0.0);
+    surface.sheenRoughness = 1.0;
+    surface.opacity = 1.0;
+    surface.anisotropy = 0.0;
+    surface.anisotropyTangent = vec3(1.0, 0.0, 0.0);
+
+    // Stock texture, fibre sheen and lamination, then the substrate (paper, plastic, metal)
+    applyPaperSurface(surface);
+    applySubstrateSurface(surface, inkColor);
+
+    // Layers are applied bottom to top in LayerStack order
+    #pragma layer_stack
 
-    vec3 color = baseColor.rgb;
+    vec3 viewDir = normalize(vViewPosition);
+    vec3 color = shadePrintSurface(surface, viewDir);
+    color = applyUnsafeHighlight(color, vUv, baseColor.rgb, printed);
+    color = applyGamutWarning(color, baseColor.rgb, proofColor, printed);
 
-    color = applyFoilLayer(color, vUv, foilMask);
-    color = applyUVLayer(color, vUv, uvMask, uGloss);
-    color = applyEmbossLayer(color, vUv, embossMap, uEmbossStrength);
+    // Premultiplied: clear plastic lets the background through
+    gl_FragColor = transmitSubstrate(color, surface, viewDir);
 
-    gl_FragColor = vec4(color, 1.0);
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
 }
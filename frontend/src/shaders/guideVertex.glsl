@@ -0,0 +1,10 @@
+precision highp float;
+
+// Print guide overlays: flat geometry in the card's plane, with card UVs
+
+varying vec2 vUv;
+
+void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
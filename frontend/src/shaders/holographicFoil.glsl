@@ -0,0 +1,77 @@
+// Holographic Foil Shader
+// Iridescence from a thin-film interference approximation: the reflected colour
+// depends on the angle between view, normal and light, and the film thickness
+// varies across the foil according to the embossed pattern.
+
+// Pattern ids (match HOLOGRAPHIC_PATTERN_INDEX in FoilPresets.ts)
+#define HOLO_PATTERN_RAINBOW 0.0
+#define HOLO_PATTERN_PILLAR 1.0
+
+float holoHash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+}
+
+vec2 holoHash2(vec2 p) {
+    return vec2(holoHash(p), holoHash(p + vec2(37.0, 17.0)));
+}
+
+// Film thickness in nanometres at this texel
+float holographicThickness(vec2 uv, float pattern, float scale) {
+    vec2 p = uv * scale;
+
+    if (pattern < HOLO_PATTERN_RAINBOW + 0.5) {
+        // Rainbow: smooth diagonal sweep through the spectrum
+        return 450.0 + 250.0 * sin(PI2 * (p.x * 0.7 + p.y * 0.3));
+    }
+
+    if (pattern < HOLO_PATTERN_PILLAR + 0.5) {
+        // Pillar: vertical columns, each its own grating
+        float column = floor(p.x * 12.0);
+        return 250.0 + 500.0 * holoHash(vec2(column, 0.0)) + 80.0 * p.y;
+    }
+
+    // Shattered glass: Voronoi shards with independent film thickness
+    vec2 cellPos = p * 6.0;
+    vec2 cell = floor(cellPos);
+    float nearest = 8.0;
+    vec2 shard = cell;
+    for (int y = -1; y <= 1; y++) {
+        for (int x = -1; x <= 1; x++) {
+            vec2 neighbour = cell + vec2(float(x), float(y));
+            vec2 feature = neighbour + holoHash2(neighbour);
+            float dist = dot(feature - cellPos, feature - cellPos);
+            if (dist < nearest) {
+                nearest = dist;
+                shard = neighbour;
+            }
+        }
+    }
+    return 250.0 + 500.0 * holoHash(shard);
+}
+
+// Interference colour of a thin film (n = 1.5) at the given incidence angle
+vec3 thinFilmInterference(float cosTheta, float thickness) {
+    const float filmIOR = 1.5;
+    float sinT2 = (1.0 - cosTheta * cosTheta) / (filmIOR * filmIOR);
+    float cosT = sqrt(max(1.0 - sinT2, 0.0));
+    float opticalPath = 2.0 * filmIOR * thickness * cosT;
+    vec3 phase = PI2 * opticalPath / vec3(650.0, 532.0, 450.0);
+    return 0.5 + 0.5 * cos(phase);
+}
+
+// Reflectance of the surface for a given angle, tinted by the film where iridescent
+vec3 iridescentReflectance(vec3 f0, float cosTheta, PrintSurface surface) {
+    if (surface.iridescence <= 0.0) {
+        return f0;
+    }
+    vec3 film = thinFilmInterference(cosTheta, surface.filmThickness);
+    return f0 * mix(vec3(1.0), film, surface.iridescence);
+}
+
+void applyHolographicSurface(inout PrintSurface surface, float coverage, vec2 uv, float pattern, float scale) {
+    if (coverage <= 0.0) {
+        return;
+    }
+    surface.iridescence = max(surface.iridescence, coverage);
+    surface.filmThickness = holographicThickness(uv, pattern, scale);
+}
@@ -0,0 +1,43 @@
+// Letterpress Layer
+// A plate pressed into the stock, usually inked: the mask is the plate. The impression is
+// recessed like a deboss, the press ink sits in the recess and squeezes a little past the
+// plate edge, and the crushed walls ("bite") darken. Crushed fibres on the floor lose most
+// of the stock texture and sheen. Blind letterpress is the impression without ink.
+// Requires embossLayer.glsl (sobelHeightGradient, applyEmbossSurface).
+
+const float LETTERPRESS_SQUEEZE_DENSITY = 0.6; // Ink density of the squeeze past the plate edge
+const float LETTERPRESS_BITE_SHADE = 0.3;      // Darkening of the crushed walls
+const float LETTERPRESS_CRUSH = 0.7;           // Share of the stock texture flattened on the floor
+
+// Plate coverage widened by the ink spread (UV radius): the plate, plus a thinner squeeze ring
+float letterpressInk(sampler2D plate, vec2 uv, vec2 spread) {
+    float ink = texture2D(plate, uv).r;
+    float squeeze = 0.0;
+    for (int i = 0; i < 8; i++) {
+        float angle = float(i) * PI * 0.25;
+        squeeze = max(squeeze, texture2D(plate, uv + spread * vec2(cos(angle), sin(angle))).r);
+    }
+    return max(ink, squeeze * LETTERPRESS_SQUEEZE_DENSITY);
+}
+
+// depth: impression depth in mm; inked: 0 for blind letterpress; coverage: layer strength (0..1)
+void applyLetterpressSurface(inout PrintSurface surface, sampler2D plate, vec2 uv, vec2 texel, vec2 spread,
+                             vec3 inkColor, float inkRoughness, float inked, float depth, float coverage,
+                             float faceDirection) {
+    float impression = texture2D(plate, uv).r * coverage;
+    vec2 gradient = sobelHeightGradient(plate, uv, texel);
+    float bite = saturate(length(gradient * texel) * 4.0) * coverage * step(0.001, depth);
+
+    // Crushed fibres: flatter and less fuzzy on the floor of the impression
+    vec3 flatNormal = normalize(vNormal) * faceDirection;
+    surface.normal = normalize(mix(surface.normal, flatNormal, impression * LETTERPRESS_CRUSH));
+    surface.sheenColor *= 1.0 - impression * LETTERPRESS_CRUSH;
+
+    // Ink is translucent over the stock
+    float ink = letterpressInk(plate, uv, spread) * coverage * inked;
+    surface.albedo = mix(surface.albedo, uStockColor * inkColor, ink);
+    surface.roughness = mix(surface.roughness, inkRoughness, ink);
+    surface.albedo *= 1.0 - LETTERPRESS_BITE_SHADE * bite;
+
+    applyEmbossSurface(surface, gradient, -depth, coverage, uv);
+}
@@ -0,0 +1,35 @@
+// Paper Stock
+// The board under the ink: a tiling micro-surface normal map (linen, felt, cotton, laid),
+// the soft sheen of its fibres, and the lamination film over the printed face.
+// Requires printSurface.glsl.
+
+varying vec2 vCardPosition; // Card-local position in mm, so the texture keeps its physical size
+
+uniform sampler2D uPaperNormalMap;
+uniform float uPaperTileSize;   // Normal map repeat in mm
+uniform float uPaperSlopeScale; // mm of height per paper UV unit for a unit normal map slope
+uniform float uPaperSheen;
+
+uniform float uLaminationCoat;
+uniform float uLaminationRoughness;
+uniform float uLaminationSheen;
+uniform float uLaminationTextureVisibility;
+
+const float PAPER_SHEEN_ROUGHNESS = 0.5;
+
+void applyPaperSurface(inout PrintSurface surface) {
+    vec2 paperUv = vCardPosition / uPaperTileSize;
+    vec3 slope = texture2D(uPaperNormalMap, paperUv).xyz * 2.0 - 1.0;
+    vec2 gradient = -slope.xy / max(slope.z, 0.1) * uPaperSlopeScale;
+    vec3 paperNormal = perturbNormalByGradient(surface.normal, gradient, paperUv);
+
+    // A film only partly follows the stock texture; fibre sheen is hidden under it
+    float filmRelief = mix(1.0, uLaminationTextureVisibility, uLaminationCoat);
+    surface.clearcoat = uLaminationCoat;
+    surface.clearcoatRoughness = uLaminationRoughness;
+    surface.clearcoatNormal = normalize(mix(surface.normal, paperNormal, filmRelief));
+    surface.normal = paperNormal;
+
+    surface.sheenColor = vec3(max(uPaperSheen * (1.0 - uLaminationCoat), uLaminationSheen));
+    surface.sheenRoughness = PAPER_SHEEN_ROUGHNESS;
+}
@@ -0,0 +1,192 @@
+// PBR Lighting
+// Metallic/roughness shading of a PrintSurface: scene directional + ambient lights
+// and a PMREM-filtered environment (when MaterialPipeline.setEnvironment provided one).
+// Requires three's <common>, <lights_pars_begin> and <cube_uv_reflection_fragment> chunks
+// and holographicFoil.glsl (iridescentReflectance).
+
+#ifdef ENVMAP_TYPE_CUBE_UV
+uniform sampler2D envMap;
+#endif
+uniform float uEnvMapIntensity;
+
+// GGX / Trowbridge-Reitz normal distribution
+float distributionGGX(float alpha, float dotNH) {
+    float a2 = alpha * alpha;
+    float denom = dotNH * dotNH * (a2 - 1.0) + 1.0;
+    return RECIPROCAL_PI * a2 / (denom * denom);
+}
+
+// Height-correlated Smith visibility term
+float visibilitySmithGGX(float alpha, float dotNL, float dotNV) {
+    float a2 = alpha * alpha;
+    float gv = dotNL * sqrt(a2 + (1.0 - a2) * dotNV * dotNV);
+    float gl = dotNV * sqrt(a2 + (1.0 - a2) * dotNL * dotNL);
+    return 0.5 / max(gv + gl, EPSILON);
+}
+
+vec3 specularGGX(vec3 lightDir, vec3 viewDir, vec3 normal, vec3 f0, float roughness) {
+    float alpha = pow2(max(roughness, 0.03));
+    vec3 halfDir = normalize(lightDir + viewDir);
+
+    float dotNL = saturate(dot(normal, lightDir));
+    float dotNV = saturate(dot(normal, viewDir));
+    float dotNH = saturate(dot(normal, halfDir));
+    float dotVH = saturate(dot(viewDir, halfDir));
+
+    vec3 F = F_Schlick(f0, 1.0, dotVH);
+    return F * visibilitySmithGGX(alpha, dotNL, dotNV) * distributionGGX(alpha, dotNH);
+}
+
+// Anisotropic GGX distribution; alphaT along the tangent, alphaB across it
+float distributionAnisotropicGGX(float alphaT, float alphaB, float dotNH, float dotTH, float dotBH) {
+    float a2 = alphaT * alphaB;
+    vec3 v = vec3(alphaB * dotTH, alphaT * dotBH, a2 * dotNH);
+    float w2 = a2 / dot(v, v);
+    return RECIPROCAL_PI * a2 * w2 * w2;
+}
+
+// Anisotropic height-correlated Smith visibility term
+float visibilitySmithAnisotropicGGX(float alphaT, float alphaB, float dotTV, float dotBV, float dotTL, float dotBL, float dotNV, float dotNL) {
+    float gv = dotNL * length(vec3(alphaT * dotTV, alphaB * dotBV, dotNV));
+    float gl = dotNV * length(vec3(alphaT * dotTL, alphaB * dotBL, dotNL));
+    return 0.5 / max(gv + gl, EPSILON);
+}
+
+// Brushed metal: the grooves run along the tangent, so highlights stretch across it
+vec3 specularBrushedGGX(vec3 lightDir, vec3 viewDir, vec3 normal, vec3 tangent, vec3 f0, float roughness, float anisotropy) {
+    float alpha = pow2(max(roughness, 0.03));
+    float alphaT = max(alpha * (1.0 - anisotropy), 0.001);
+    float alphaB = min(alpha * (1.0 + anisotropy), 1.0);
+    vec3 bitangent = cross(normal, tangent);
+    vec3 halfDir = normalize(lightDir + viewDir);
+
+    float dotNL = saturate(dot(normal, lightDir));
+    float dotNV = saturate(dot(normal, viewDir));
+    float dotNH = saturate(dot(normal, halfDir));
+    float dotVH = saturate(dot(viewDir, halfDir));
+
+    vec3 F = F_Schlick(f0, 1.0, dotVH);
+    float V = visibilitySmithAnisotropicGGX(alphaT, alphaB, dot(tangent, viewDir), dot(bitangent, viewDir),
+                                            dot(tangent, lightDir), dot(bitangent, lightDir), dotNV, dotNL);
+    float D = distributionAnisotropicGGX(alphaT, alphaB, dotNH, dot(tangent, halfDir), dot(bitangent, halfDir));
+    return F * V * D;
+}
+
+// Charlie sheen distribution (Estevez & Kulla 2017) with Neubelt's visibility, as in three's sheen
+vec3 sheenLobe(vec3 lightDir, vec3 viewDir, vec3 normal, vec3 sheenColor, float sheenRoughness) {
+    vec3 halfDir = normalize(lightDir + viewDir);
+    float dotNL = saturate(dot(normal, lightDir));
+    float dotNV = saturate(dot(normal, viewDir));
+    float dotNH = saturate(dot(normal, halfDir));
+
+    float alpha = pow2(max(sheenRoughness, 0.07));
+    float invAlpha = 1.0 / alpha;
+    float sin2h = max(1.0 - dotNH * dotNH, 0.0078125);
+    float D = (2.0 + invAlpha) * pow(sin2h, invAlpha * 0.5) / (2.0 * PI);
+    float V = saturate(1.0 / (4.0 * (dotNL + dotNV - dotNL * dotNV)));
+
+    return sheenColor * D * V;
+}
+
+// Directional albedo of the sheen lobe for image-based lighting (three's IBLSheenBRDF fit)
+float sheenEnvironmentBRDF(float dotNV, float sheenRoughness) {
+    float r2 = sheenRoughness * sheenRoughness;
+    float a = sheenRoughness < 0.25 ? -339.2 * r2 + 161.4 * sheenRoughness - 25.9 : -8.48 * r2 + 14.3 * sheenRoughness - 9.95;
+    float b = sheenRoughness < 0.25 ? 44.0 * r2 - 23.7 * sheenRoughness + 3.26 : 1.97 * r2 - 3.27 * sheenRoughness + 0.72;
+    float DG = exp(a * dotNV + b) + (sheenRoughness < 0.25 ? 0.0 : 0.1 * (sheenRoughness - 0.25));
+    return saturate(DG * RECIPROCAL_PI);
+}
+
+// Analytical approximation of the split-sum environment BRDF (Karis 2014)
+vec3 environmentBRDF(vec3 f0, float roughness, float dotNV) {
+    const vec4 c0 = vec4(-1.0, -0.0275, -0.572, 0.022);
+    const vec4 c1 = vec4(1.0, 0.0425, 1.04, -0.04);
+    vec4 r = roughness * c0 + c1;
+    float a004 = min(r.x * r.x, exp2(-9.28 * dotNV)) * r.x + r.y;
+    vec2 fab = vec2(-1.04, 1.04) * a004 + r.zw;
+    return f0 * fab.x + fab.y;
+}
+
+vec3 shadePrintSurface(PrintSurface surface, vec3 viewDir) {
+    vec3 normal = surface.normal;
+    // Light that passes through a clear sheet is not diffused (see transmitSubstrate)
+    vec3 diffuseColor = surface.albedo * (1.0 - surface.metalness) * surface.opacity;
+    vec3 f0 = mix(vec3(0.04), surface.albedo, surface.metalness);
+    float dotNV = saturate(dot(normal, viewDir));
+
+    vec3 outgoing = vec3(0.0);
+
+    // Direct lighting (key and rim lights)
+    #if NUM_DIR_LIGHTS > 0
+    for (int i = 0; i < NUM_DIR_LIGHTS; i++) {
+        vec3 lightDir = directionalLights[i].direction;
+        float dotNL = saturate(dot(normal, lightDir));
+        vec3 irradiance = dotNL * directionalLights[i].color;
+
+        // Holographic foil shifts colour with the view/light half angle
+        float dotVH = saturate(dot(viewDir, normalize(lightDir + viewDir)));
+        vec3 lightF0 = iridescentReflectance(f0, dotVH, surface);
+
+        outgoing += irradiance * BRDF_Lambert(diffuseColor);
+        if (surface.anisotropy > 0.0) {
+            outgoing += irradiance * specularBrushedGGX(lightDir, viewDir, normal, surface.anisotropyTangent, lightF0, surface.roughness, surface.anisotropy);
+        } else {
+            outgoing += irradiance * specularGGX(lightDir, viewDir, normal, lightF0, surface.roughness);
+        }
+        outgoing += irradiance * sheenLobe(lightDir, viewDir, normal, surface.sheenColor, surface.sheenRoughness);
+    }
+    #endif
+
+    // Ambient light
+    outgoing += getAmbientLightIrradiance(ambientLightColor) * BRDF_Lambert(diffuseColor);
+
+    // Image-based lighting from the HDR environment
+    #ifdef ENVMAP_TYPE_CUBE_UV
+    vec3 worldNormal = inverseTransformDirection(normal, viewMatrix);
+    vec3 envIrradiance = PI * textureCubeUV(envMap, worldNormal, 1.0).rgb * uEnvMapIntensity;
+
+    // Brushed metal: bend the reflection normal so the environment streaks across the brushing
+    vec3 reflectNormal = normal;
+    if (surface.anisotropy > 0.0) {
+        vec3 brushDir = surface.anisotropyTangent;
+        vec3 bentNormal = normalize(cross(cross(brushDir, viewDir), brushDir));
+        reflectNormal = normalize(mix(bentNormal, normal, pow2(pow2(1.0 - surface.anisotropy * (1.0 - surface.roughness)))));
+    }
+    vec3 reflectDir = reflect(-viewDir, reflectNormal);
+    reflectDir = normalize(mix(reflectDir, normal, pow2(surface.roughness)));
+    reflectDir = inverseTransformDirection(reflectDir, viewMatrix);
+    vec3 envRadiance = textureCubeUV(envMap, reflectDir, surface.roughness).rgb * uEnvMapIntensity;
+
+    outgoing += envIrradiance * BRDF_Lambert(diffuseColor);
+    outgoing += envIrradiance * surface.sheenColor * sheenEnvironmentBRDF(dotNV, surface.sheenRoughness);
+    outgoing += envRadiance * environmentBRDF(iridescentReflectance(f0, dotNV, surface), surface.roughness, dotNV);
+    #endif
+
+    // Spot UV clearcoat: dielectric (IOR 1.5) lobe on top, attenuating the layers below
+    if (surface.clearcoat > 0.0) {
+        vec3 ccNormal = surface.clearcoatNormal;
+        float ccDotNV = saturate(dot(ccNormal, viewDir));
+        vec3 ccF0 = vec3(0.04);
+        vec3 coat = vec3(0.0);
+
+        #if NUM_DIR_LIGHTS > 0
+        for (int i = 0; i < NUM_DIR_LIGHTS; i++) {
+            vec3 lightDir = directionalLights[i].direction;
+            vec3 irradiance = saturate(dot(ccNormal, lightDir)) * directionalLights[i].color;
+            coat += irradiance * specularGGX(lightDir, viewDir, ccNormal, ccF0, surface.clearcoatRoughness);
+        }
+        #endif
+
+        #ifdef ENVMAP_TYPE_CUBE_UV
+        vec3 ccReflectDir = reflect(-viewDir, ccNormal);
+        ccReflectDir = inverseTransformDirection(ccReflectDir, viewMatrix);
+        vec3 ccRadiance = textureCubeUV(envMap, ccReflectDir, surface.clearcoatRoughness).rgb * uEnvMapIntensity;
+        coat += ccRadiance * environmentBRDF(ccF0, surface.clearcoatRoughness, ccDotNV);
+        #endif
+
+        float ccFresnel = F_Schlick(0.04, 1.0, ccDotNV);
+        outgoing = outgoing * (1.0 - surface.clearcoat * ccFresnel) + surface.clearcoat * coat;
+    }
+
+    return outgoing;
+}
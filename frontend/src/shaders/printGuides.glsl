@@ -0,0 +1,16 @@
+// Print Guides
+// Flags artwork content in the unsafe band: the strip inside the trim (and around cutouts)
+// that may be cut off or look cramped. uSafeZoneMask is white where content is safe, in card UVs.
+
+uniform sampler2D uSafeZoneMask;
+uniform float uGuidesEnabled;
+uniform vec3 uGuideBackground; // Artwork colour counted as empty background
+
+const vec3 UNSAFE_HIGHLIGHT = vec3(1.0, 0.0, 0.6);
+
+vec3 applyUnsafeHighlight(vec3 color, vec2 cardUv, vec3 artworkColor, float printed) {
+    float unsafeBand = 1.0 - texture2D(uSafeZoneMask, cardUv).r;
+    float content = step(0.1, distance(artworkColor, uGuideBackground)) * printed;
+    float hatch = step(0.5, fract((gl_FragCoord.x + gl_FragCoord.y) / 12.0));
+    return mix(color, UNSAFE_HIGHLIGHT, unsafeBand * content * hatch * uGuidesEnabled * 0.7);
+}
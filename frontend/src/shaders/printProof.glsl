@@ -0,0 +1,53 @@
+// Print Proof
+// Soft proof of the artwork on press: the artwork colour goes through a 3D LUT (sRGB-encoded in and out,
+// e.g. a CMYK round trip baked from the press profile) before it is printed on the stock. The LUT is a
+// size x size² texture, red fastest, then green, then blue (three's LUTCubeLoader layout).
+// Colours the press moves further than uGamutTolerance are out of gamut and can be hatched.
+
+uniform float uProofEnabled;
+uniform sampler2D uProofLUT;
+uniform float uProofLUTSize;
+uniform vec3 uProofDomainMin;
+uniform vec3 uProofDomainMax;
+uniform float uGamutWarning;
+uniform float uGamutTolerance;
+
+const vec3 GAMUT_WARNING_COLOR = vec3(0.5);
+
+vec3 proofEncode(vec3 linearColor) {
+    vec3 encoded = 1.055 * pow(max(linearColor, 0.0), vec3(1.0 / 2.4)) - 0.055;
+    return mix(linearColor * 12.92, encoded, step(0.0031308, linearColor));
+}
+
+vec3 proofDecode(vec3 encodedColor) {
+    vec3 decoded = pow((encodedColor + 0.055) / 1.055, vec3(2.4));
+    return mix(encodedColor / 12.92, decoded, step(0.04045, encodedColor));
+}
+
+// Trilinear lookup: bilinear within the two nearest blue slices, blended between them
+vec3 sampleProofLUT(vec3 encodedColor) {
+    vec3 t = saturate((encodedColor - uProofDomainMin) / (uProofDomainMax - uProofDomainMin));
+    vec3 cell = t * (uProofLUTSize - 1.0);
+    float slice = min(floor(cell.b), uProofLUTSize - 2.0);
+
+    float x = (cell.r + 0.5) / uProofLUTSize;
+    float y = (cell.g + slice * uProofLUTSize + 0.5) / (uProofLUTSize * uProofLUTSize);
+    vec3 lower = texture2D(uProofLUT, vec2(x, y)).rgb;
+    vec3 upper = texture2D(uProofLUT, vec2(x, y + 1.0 / uProofLUTSize)).rgb;
+    return mix(lower, upper, cell.b - slice);
+}
+
+// Linear artwork colour as printed (unchanged when not proofing)
+vec3 proofArtworkColor(vec3 color) {
+    if (uProofEnabled < 0.5) {
+        return color;
+    }
+    return proofDecode(sampleProofLUT(proofEncode(color)));
+}
+
+vec3 applyGamutWarning(vec3 color, vec3 artworkColor, vec3 proofedColor, float printed) {
+    float shift = distance(proofEncode(artworkColor), proofEncode(proofedColor));
+    float outOfGamut = step(uGamutTolerance, shift) * printed * uGamutWarning * uProofEnabled;
+    float hatch = step(0.5, fract((gl_FragCoord.x - gl_FragCoord.y) / 8.0));
+    return mix(color, GAMUT_WARNING_COLOR, outOfGamut * hatch * 0.8);
+}
@@ -0,0 +1,67 @@
+// Print Surface
+// Shading inputs accumulated by the layer stack and consumed by pbrLighting.glsl
+
+struct PrintSurface {
+    vec3 albedo;      // Base colour (linear); reflectance colour when metallic
+    float metalness;  // 0 = paper/ink, 1 = foil
+    float roughness;  // Perceptual roughness
+    vec3 normal;      // View-space normal
+    float iridescence;   // 0..1 holographic foil coverage
+    float filmThickness; // Holographic film thickness (nm)
+    float clearcoat;          // 0..1 spot UV varnish coverage
+    float clearcoatRoughness; // Varnish roughness
+    vec3 clearcoatNormal;     // View-space varnish normal (raised edges)
+    vec3 sheenColor;      // Fibre/velvet sheen at grazing angles (0 = none)
+    float sheenRoughness;
+    float opacity;            // 1 = opaque; below 1 light passes through (clear/frosted plastic)
+    float anisotropy;         // 0..1 highlight stretch across the brushing direction (brushed metal)
+    vec3 anisotropyTangent;   // View-space brushing direction
+};
+
+// Perturb a normal by a height map (heights in scene units, i.e. mm)
+// Screen-space derivative bump mapping (Mikkelsen 2010), as in three's bumpmap chunk.
+// Must not be called from non-uniform control flow.
+vec3 perturbNormalByHeight(vec3 normal, sampler2D heightMap, vec2 uv, float heightScale, float faceDirection) {
+    vec2 dSTdx = dFdx(uv);
+    vec2 dSTdy = dFdy(uv);
+
+    float h = heightScale * texture2D(heightMap, uv).r;
+    vec2 dHdxy = vec2(
+        heightScale * texture2D(heightMap, uv + dSTdx).r - h,
+        heightScale * texture2D(heightMap, uv + dSTdy).r - h
+    );
+
+    vec3 surfPos = -vViewPosition;
+    vec3 sigmaX = dFdx(surfPos);
+    vec3 sigmaY = dFdy(surfPos);
+    vec3 r1 = cross(sigmaY, normal);
+    vec3 r2 = cross(normal, sigmaX);
+    float det = dot(sigmaX, r1) * faceDirection;
+
+    vec3 gradient = sign(det) * (dHdxy.x * r1 + dHdxy.y * r2);
+    return normalize(abs(det) * normal - gradient);
+}
+
+// Perturb a normal by a height gradient given in UV space (mm of height per UV unit of uv)
+// The UV gradients on the surface are solved from screen-space derivatives, so the
+// slope is physically scaled to the card size. Must not be called from non-uniform control flow.
+vec3 perturbNormalByGradient(vec3 normal, vec2 dHdUV, vec2 uv) {
+    vec3 surfPos = -vViewPosition;
+    vec3 dpdx = dFdx(surfPos);
+    vec3 dpdy = dFdy(surfPos);
+    vec2 duvdx = dFdx(uv);
+    vec2 duvdy = dFdy(uv);
+
+    vec3 perpY = cross(dpdy, normal);
+    vec3 perpX = cross(normal, dpdx);
+    float det = dot(dpdx, perpY);
+    if (abs(det) < 1e-12) {
+        return normal;
+    }
+
+    // Surface gradients of u and v
+    vec3 gradU = (duvdx.x * perpY + duvdy.x * perpX) / det;
+    vec3 gradV = (duvdx.y * perpY + duvdy.y * perpX) / det;
+
+    return normalize(normal - (dHdUV.x * gradU + dHdUV.y * gradV));
+}
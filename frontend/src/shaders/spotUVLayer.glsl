@@ -0,0 +1,20 @@
+// Spot UV Layer Shader
+// Glossy varnish modelled as a clearcoat over the stock: a sharp dielectric
+// specular lobe and environment reflection only where the UV mask is set.
+// The varnish is raised by its thickness, so its edges catch the light.
+
+// Gloss level (0..1) to clearcoat roughness
+float varnishRoughness(float gloss) {
+    return mix(0.6, 0.02, saturate(gloss));
+}
+
+// Varnish deepens the colours underneath (the "wet look")
+vec3 uvLayerColor(vec3 baseColor, float gloss) {
+    return pow(baseColor, vec3(1.0 + 0.15 * gloss));
+}
+
+void applySpotUVSurface(inout PrintSurface surface, float coverage, float gloss, vec3 varnishNormal) {
+    surface.clearcoat = max(surface.clearcoat, coverage);
+    surface.clearcoatRoughness = mix(surface.clearcoatRoughness, varnishRoughness(gloss), coverage);
+    surface.clearcoatNormal = normalize(mix(surface.clearcoatNormal, varnishNormal, coverage));
+}
@@ -0,0 +1,49 @@
+// Substrate
+// Plastic and metal cards. Process inks are translucent: on clear PVC they tint the sheet,
+// on steel the metal shows through them; white ink (whiteInkLayer.glsl) is the opaque layer.
+// Requires printSurface.glsl, paperStock.glsl (vCardPosition) and pbrLighting.glsl (envMap).
+
+varying vec3 vTangent; // View-space card X axis, the brushing direction
+
+uniform float uSubstrateMetal; // 1 for metal cards
+uniform float uTransmission;   // Share of light passing through the bare sheet
+uniform float uFrost;          // Share of the transmitted light that is scattered
+uniform float uIor;
+uniform float uAnisotropy;
+
+const vec3 INK_LUMINANCE = vec3(0.2126, 0.7152, 0.0722);
+
+void applySubstrateSurface(inout PrintSurface surface, vec3 inkColor) {
+    // The more ink, the less see-through (white artwork prints no ink)
+    float inkDensity = 1.0 - dot(inkColor, INK_LUMINANCE);
+    surface.opacity = 1.0 - uTransmission * (1.0 - inkDensity);
+
+    // Brushing leaves streaks of slightly different roughness across the card
+    float streak = fract(sin(floor(vCardPosition.y * 40.0) * 12.9898) * 43758.5453);
+    surface.metalness = uSubstrateMetal;
+    surface.roughness = mix(surface.roughness, surface.roughness * (0.75 + 0.5 * streak), uSubstrateMetal);
+    surface.anisotropy = uAnisotropy;
+    surface.anisotropyTangent = normalize(vTangent - surface.normal * dot(vTangent, surface.normal));
+}
+
+// Light seen through the sheet, scattered by frosting
+vec3 scatteredSurroundings(vec3 viewDir) {
+    #ifdef ENVMAP_TYPE_CUBE_UV
+    vec3 throughDir = inverseTransformDirection(-viewDir, viewMatrix);
+    return textureCubeUV(envMap, throughDir, mix(0.3, 1.0, uFrost)).rgb * uEnvMapIntensity;
+    #else
+    return getAmbientLightIrradiance(ambientLightColor) * RECIPROCAL_PI;
+    #endif
+}
+
+// Premultiplied colour and alpha of the shaded surface
+// A thin flat sheet sends transmitted light on in its original direction, so clear areas blend with
+// whatever is behind the card; the IOR sets how much is reflected instead (Fresnel).
+vec4 transmitSubstrate(vec3 color, PrintSurface surface, vec3 viewDir) {
+    float f0 = pow2((uIor - 1.0) / (uIor + 1.0));
+    float fresnel = F_Schlick(f0, 1.0, saturate(dot(surface.normal, viewDir)));
+    float transmitted = (1.0 - surface.opacity) * (1.0 - fresnel);
+
+    color += transmitted * uFrost * scatteredSurroundings(viewDir) * uStockColor;
+    return vec4(color, 1.0 - transmitted * (1.0 - uFrost));
+}
@@ -2,10 +2,37 @@ precision highp float;
 
 varying vec2 vUv;
 varying vec3 vNormal;
+varying vec3 vViewPosition;
+varying vec2 vCardPosition;
+varying vec3 vTangent;
+
+uniform float uEmbossStrength;    // Signed relief in mm (negative = deboss)
+uniform float uDisplacementScale; // 0 disables displacement (needs grid-tessellated faces)
+
+#include artworkPlacement.glsl
+
+// Emboss/deboss displacement uniforms are generated by MaterialPipeline from the LayerStack
+#pragma layer_displacement_uniforms
 
 void main() {
     vUv = uv;
-    vNormal = normal;
+    vCardPosition = position.xy;
+    vTangent = normalize((modelViewMatrix * vec4(1.0, 0.0, 0.0, 0.0)).xyz);
+    vNormal = normalize(normalMatrix * normal);
+
+    // Each face is raised along its own normal by its own layer stack,
+    // side walls (normal.z == 0) stay put
+    // Height maps are placed like the artwork
+    vec2 artUv = placeArtwork(uv);
+    float displacement = 0.0;
+    #pragma layer_displacement
+    displacement *= artworkCoverage(artUv);
+
+    vec3 transformed = position;
+    transformed += normal * displacement * uDisplacementScale * abs(normal.z);
+
+    vec4 mvPosition = modelViewMatrix * vec4(transformed, 1.0);
+    vViewPosition = -mvPosition.xyz;
 
-    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
 }
@@ -0,0 +1,13 @@
+// White Ink Layer
+// Opaque white printed under the colours: the artwork's ink sits on it, so it shows the artwork
+// at full strength on dark stock, hides the metal of steel cards and blocks light through clear PVC.
+
+// Ink is never smoother than a satin print
+const float WHITE_INK_MIN_ROUGHNESS = 0.6;
+
+void applyWhiteInkSurface(inout PrintSurface surface, float coverage) {
+    surface.opacity = max(surface.opacity, coverage);
+    surface.metalness *= 1.0 - coverage;
+    surface.anisotropy *= 1.0 - coverage;
+    surface.roughness = mix(surface.roughness, max(surface.roughness, WHITE_INK_MIN_ROUGHNESS), coverage);
+}
@@ -0,0 +1,108 @@
+import { Product, ProductCatalogue, ProductSize } from '../config/ProductCatalogue.js';
+import { PriceTable, formatSurcharge, materialPrice } from '../config/Pricing.js';
+import { mmToInches, ptToMm } from '../engine/Units.js';
+
+/**
+ * Catalogue Sections
+ * Builds the option lists of the configurator steps from a catalogue product, into the
+ * containers index.html provides (#product-options, #size-options, ...). Options carry the
+ * data attributes the harness reads (data-size, data-thickness-pt, data-stock, ...); selection
+ * state is left to the harness.
+ */
+export function renderCatalogueSections(catalogue: ProductCatalogue, product: Product, prices: PriceTable): void {
+  // Products (only worth showing when there is a choice)
+  fill('product-options', catalogue.products.map(entry => optionItem('product-option', { product: entry.id }, entry.name)));
+  const products = document.getElementById('product-options');
+  if (products) {
+    products.style.display = catalogue.products.length > 1 ? '' : 'none';
+  }
+
+  fill('size-options', product.sizes.map(sizeCard));
+
+  fill('thickness-options', product.thicknesses.map(pt => {
+    const option = element('div', 'thickness-option', { thicknessPt: String(pt) });
+    option.append(element('div', 'thickness-option-value', {}, `${pt}pt`), element('div', 'thickness-option-mm', {}, `${ptToMm(pt).toFixed(2)} mm`));
+    return option;
+  }));
+
+  fill('material-options', product.materials.map(material =>
+    optionItem(
+      '',
+      material.substrate === 'paper' ? { stock: material.paperStock! } : { substrate: material.substrate },
+      material.name,
+      formatSurcharge(materialPrice({ substrate: material.substrate, paperStock: material.paperStock ?? 'silk' }, prices))
+    )
+  ));
+
+  fill('edge-finish-options', product.edgeFinishes.map(finish =>
+    optionItem(
+      'edge-finish-option',
+      { edgeFinish: finish.mode, ...(finish.foil ? { foil: finish.foil } : {}) },
+      finish.name,
+      formatSurcharge(prices.edge[finish.mode])
+    )
+  ));
+
+  fill('color-swatches', product.edgeColors.map(swatch => {
+    const option = element('div', 'color-swatch', { color: swatch.color });
+    option.style.background = swatch.color;
+    option.title = swatch.name;
+    return option;
+  }));
+
+  fill('ply-options', product.plyStocks.map(option =>
+    optionItem('ply-option', { plies: option.plyStock }, option.name, formatSurcharge(prices.plyStock[option.plyStock]))
+  ));
+
+  fill('layer-toggles', product.layers.map(layer => element('button', 'toggle-btn', { layer: layer.kind }, layer.name)));
+
+  fill('finish-options', product.laminations.map(option => optionItem('', { lamination: option.lamination }, option.name)));
+}
+
+/**
+ * Size card with a preview in the size's proportions, e.g. 3.5" x 2" Traditional
+ */
+function sizeCard(size: ProductSize): HTMLElement {
+  const card = element('div', 'size-option-card', { size: size.id });
+
+  const preview = element('div', 'size-preview');
+  preview.style.height = 'auto';
+  preview.style.aspectRatio = `${size.width} / ${size.height}`;
+  preview.style.width = `min(100%, ${Math.round((60 * size.width) / size.height)}px)`;
+
+  const inches = (mm: number) => `${parseFloat(mmToInches(mm).toFixed(2))}"`;
+  const text = element('div', 'size-option-text', {}, `${inches(size.width)} x ${inches(size.height)}`);
+  text.append(document.createElement('br'), size.name);
+
+  card.append(preview, text);
+  return card;
+}
+
+/**
+ * Option grid item with a name and, if given, a price line
+ */
+function optionItem(className: string, data: Record<string, string>, name: string, price?: string): HTMLElement {
+  const item = element('div', `option-item ${className}`.trim(), data);
+  item.append(element('div', 'option-item-name', {}, name));
+  if (price !== undefined) {
+    item.append(element('div', 'option-item-price', {}, price));
+  }
+  return item;
+}
+
+function element(tag: string, className: string, data: Record<string, string> = {}, text?: string): HTMLElement {
+  const node = document.createElement(tag);
+  node.className = className;
+  Object.assign(node.dataset, data);
+  if (text !== undefined) {
+    node.textContent = text;
+  }
+  return node;
+}
+
+/**
+ * Replace the children of a container (missing containers are skipped)
+ */
+function fill(id: string, children: HTMLElement[]): void {
+  document.getElementById(id)?.replaceChildren(...children);
+}
@@ -1,36 +1,104 @@
 import * as THREE from 'three';
 import { EngineController } from '../engine/EngineController.js';
 import { CardGeometry } from '../engine/CardGeometry.js';
-import { MaterialPipeline } from '../engine/MaterialPipeline.js';
+import { outlineFromSVGPath, uniformCorners, CornerSpecs, Cutout } from '../engine/CardOutline.js';
+import { MaterialPipeline, CardMaterialSet } from '../engine/MaterialPipeline.js';
+import { LayerStack, LayerKind } from '../engine/LayerStack.js';
+import { getFoilChannel, FoilMaskChannel, FoilPresetName, HolographicPattern } from '../engine/FoilPresets.js';
+import { PlyStockName, EdgeFinish } from '../engine/EdgeFinish.js';
+import { ArtworkPlacement } from '../engine/ArtworkPlacement.js';
+import { ArtworkDragController } from '../engine/ArtworkDragController.js';
+import { PrintGuides, PrintGuideOptions } from '../engine/PrintGuides.js';
+import { getPaperStock, LaminationName, PaperStockName } from '../engine/PaperStocks.js';
+import { SubstrateName } from '../engine/Substrates.js';
+import { getBlindLetterpress, getLetterpress, LetterpressParams } from '../engine/Letterpress.js';
+import { createPressProofLUT, DEFAULT_GAMUT_TOLERANCE, PrintProofOptions } from '../engine/ColorProof.js';
+import { caliperToGsm, formatCaliper, formatLength, mmToPt, ptToMm } from '../engine/Units.js';
+import { CardConfiguration, CardConfigurationState, FoilChannelSettings, PrintedFace } from '../config/CardConfiguration.js';
+import { ConfigurationBinding } from '../config/ConfigurationBinding.js';
+import { ConfigurationHistory } from '../config/ConfigurationHistory.js';
+import { configurationLinkURL, localAssets, readConfigurationLink } from '../config/ConfigurationLink.js';
+import { priceConfiguration, PriceTable, PRICES } from '../config/Pricing.js';
+import {
+  conformToProduct,
+  fallbackCatalogue,
+  getProduct,
+  loadCatalogue,
+  Product,
+  ProductCatalogue,
+  productConfiguration,
+  productDefaults,
+  productPrices
+} from '../config/ProductCatalogue.js';
 import { ResourceManager } from '../resources/ResourceManager.js';
+import { renderCatalogueSections } from './CatalogueSections.js';
+
+const FOIL_PRESET_LABELS: Record<FoilPresetName, string> = {
+  gold: 'Gold',
+  silver: 'Silver',
+  copper: 'Copper',
+  roseGold: 'Rose Gold',
+  black: 'Black',
+  holographic: 'Holographic',
+  custom: 'Custom'
+};
+
+const MASK_CHANNEL_LABELS: Record<FoilMaskChannel, string> = {
+  r: 'Red',
+  g: 'Green',
+  b: 'Blue',
+  a: 'Alpha'
+};
 
 /**
  * Test Harness
  * Development controls and initialization for the 3D card engine
  */
 export class TestHarness {
-  private engineController: EngineController;
-  private cardGeometry: CardGeometry;
-  private material: THREE.ShaderMaterial;
-  private cardMesh: THREE.Mesh;
-
-  // Current values
-  private width: number = 88.9; // 3.5" in mm (default: Traditional)
-  private height: number = 50.8; // 2" in mm
-  private thickness: number = 5.64; // 16pt in mm (default)
-  private cornerRadius: number = 5;
-  private isCustomSize: boolean = false;
+  private engineController!: EngineController;
+  private cardGeometry!: CardGeometry;
+  private materials!: CardMaterialSet;
+  private cardMesh!: THREE.Mesh;
+  private artworkDrag!: ArtworkDragController;
+  private printGuides!: PrintGuides;
+
+  // What the customer configured; the engine (through the binding), the UI and the price follow it
+  private config!: CardConfiguration;
+  private binding!: ConfigurationBinding;
+  private history!: ConfigurationHistory;
+
+  // What can be configured: the catalogue, and the prices of the configured product
+  private catalogue!: ProductCatalogue;
+  private prices: PriceTable = PRICES;
+
+  private linkUpdateTimer: number | null = null;
+
+  // Preview-only settings (not part of the card)
+  private thicknessExaggeration: number = 1; // Visual only: the mesh is this many times thicker
+  private printProof: PrintProofOptions = {
+    lut: createPressProofLUT(),
+    gamutWarning: false,
+    gamutTolerance: DEFAULT_GAMUT_TOLERANCE
+  };
+  private printProofEnabled: boolean = false;
 
   // UI Elements
   private previewPanel: HTMLElement | null = null;
   private fullscreenBtn: HTMLElement | null = null;
   private screenshotBtn: HTMLElement | null = null;
+  private shareBtn: HTMLElement | null = null;
+  private guidesBtn: HTMLElement | null = null;
+  private proofBtn: HTMLElement | null = null;
+  private gamutBtn: HTMLElement | null = null;
+  private undoBtn: HTMLButtonElement | null = null;
+  private redoBtn: HTMLButtonElement | null = null;
   private stepButtons: NodeListOf<HTMLElement> | null = null;
   private configSections: NodeListOf<HTMLElement> | null = null;
   private priceDisplay: HTMLElement | null = null;
   private addToCartBtn: HTMLElement | null = null;
 
-  // Size options
+  // Product and size options
+  private productOptions: NodeListOf<HTMLElement> | null = null;
   private sizeOptionCards: NodeListOf<HTMLElement> | null = null;
   private customSizeToggle: HTMLElement | null = null;
   private customSizeControls: HTMLElement | null = null;
@@ -42,25 +110,26 @@ export class TestHarness {
 
   // Thickness options
   private thicknessOptions: NodeListOf<HTMLElement> | null = null;
+  private exaggerationSlider: HTMLInputElement | null = null;
 
-  // Layer toggles
-  private foilToggle: HTMLElement | null = null;
-  private uvToggle: HTMLElement | null = null;
-  private embossToggle: HTMLElement | null = null;
+  // Layer toggles (front face)
+  private layerToggles: Partial<Record<LayerKind, HTMLElement | null>> = {};
+  private foilLegend: HTMLElement | null = null;
 
   // Option items
   private materialOptions: NodeListOf<HTMLElement> | null = null;
   private colorSwatches: NodeListOf<HTMLElement> | null = null;
+  private edgeFinishOptions: NodeListOf<HTMLElement> | null = null;
+  private plyOptions: NodeListOf<HTMLElement> | null = null;
   private finishOptions: NodeListOf<HTMLElement> | null = null;
 
-  private basePrice: number = 0;
-
   /**
    * Initialize the test harness
+   * @param configuration - Card to open (e.g. restored from a shared link); the default card if not provided
    */
-  static async init(): Promise<TestHarness> {
+  static async init(configuration?: CardConfigurationState): Promise<TestHarness> {
     const harness = new TestHarness();
-    await harness.initialize();
+    await harness.initialize(configuration);
     return harness;
   }
 
@@ -71,7 +140,7 @@ export class TestHarness {
   /**
    * Initialize engine, resources, geometry, and material
    */
-  private async initialize(): Promise<void> {
+  private async initialize(configuration?: CardConfigurationState): Promise<void> {
     console.log('Initializing Test Harness...');
 
     // Step 1: Initialize EngineController
@@ -82,9 +151,13 @@ export class TestHarness {
 
     // Step 3: Load textures (with fallbacks)
     let artworkTexture: THREE.Texture;
+    let backArtworkTexture: THREE.Texture;
     let foilMask: THREE.Texture;
     let uvMask: THREE.Texture;
     let embossHeightMap: THREE.Texture;
+    let letterpressPlate: THREE.Texture;
+    let backFoilMask: THREE.Texture;
+    let backUVMask: THREE.Texture;
 
     try {
       artworkTexture = await ResourceManager.loadTexture('/textures/artwork.jpg');
@@ -94,12 +167,20 @@ export class TestHarness {
       artworkTexture = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.8, 0.8, 0.9));
     }
 
+    try {
+      backArtworkTexture = await ResourceManager.loadTexture('/textures/artwork-back.png');
+      console.log('Back artwork texture loaded');
+    } catch (error) {
+      console.warn('Back artwork texture not found, using placeholder');
+      backArtworkTexture = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.95, 0.95, 0.95));
+    }
+
     try {
       foilMask = await ResourceManager.loadMask('/masks/foil.png');
       console.log('Foil mask loaded');
     } catch (error) {
       console.warn('Foil mask not found, using placeholder');
-      foilMask = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.0, 0.0, 0.0));
+      foilMask = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.0, 0.0, 0.0), 'mask');
     }
 
     try {
@@ -107,47 +188,144 @@ export class TestHarness {
       console.log('UV mask loaded');
     } catch (error) {
       console.warn('UV mask not found, using placeholder');
-      uvMask = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.0, 0.0, 0.0));
+      uvMask = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.0, 0.0, 0.0), 'mask');
     }
 
     try {
-      embossHeightMap = await ResourceManager.loadMask('/masks/emboss.png');
+      embossHeightMap = await ResourceManager.loadHeightMap('/masks/emboss.png');
       console.log('Emboss height map loaded');
     } catch (error) {
       console.warn('Emboss height map not found, using placeholder');
-      embossHeightMap = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.5, 0.5, 0.5));
+      embossHeightMap = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.5, 0.5, 0.5), 'height');
+    }
+
+    try {
+      letterpressPlate = await ResourceManager.loadMask('/masks/letterpress.png');
+      console.log('Letterpress plate loaded');
+    } catch (error) {
+      console.warn('Letterpress plate not found, using placeholder');
+      letterpressPlate = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.0, 0.0, 0.0), 'mask');
+    }
+
+    try {
+      backFoilMask = await ResourceManager.loadMask('/masks/foil-back.png');
+      console.log('Back foil mask loaded');
+    } catch (error) {
+      console.warn('Back foil mask not found, using placeholder');
+      backFoilMask = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.0, 0.0, 0.0), 'mask');
+    }
+
+    try {
+      backUVMask = await ResourceManager.loadMask('/masks/uv-back.png');
+      console.log('Back UV mask loaded');
+    } catch (error) {
+      console.warn('Back UV mask not found, using placeholder');
+      backUVMask = ResourceManager.createPlaceholderTexture(512, 512, new THREE.Color(0.0, 0.0, 0.0), 'mask');
     }
 
-    // Step 4: Create card geometry (default: 3.5" x 2" Traditional, 16pt)
+    // Step 4: Load the product catalogue, create the configuration (the shared card, or the
+    // product's defaults) and its card geometry
+    try {
+      this.catalogue = await loadCatalogue();
+    } catch (error) {
+      console.error('Product catalogue not loaded, offering the default card only:', error);
+      this.catalogue = fallbackCatalogue();
+    }
+    this.config = new CardConfiguration(this.openingConfiguration(configuration));
+    const state = this.config.state;
     this.cardGeometry = new CardGeometry({
-      width: this.width,
-      height: this.height,
-      thickness: this.thickness,
-      cornerRadius: this.cornerRadius
+      width: state.width,
+      height: state.height,
+      thickness: state.thickness,
+      cornerRadius: state.cornerRadius,
+      thicknessExaggeration: this.thicknessExaggeration
     });
 
-    // Step 5: Create material via MaterialPipeline
-    this.material = MaterialPipeline.createCardMaterial({
-      artwork: artworkTexture,
-      foilMask: foilMask,
-      uvMask: uvMask,
-      embossMap: embossHeightMap
+    // Step 5: Create per-face materials via MaterialPipeline
+    // Layer settings (enabled, foil, ...) come from the configuration through the binding
+    const frontLayers = new LayerStack([
+      { id: 'foil', kind: 'foil', mask: foilMask, enabled: false },
+      { id: 'uv', kind: 'spotUV', mask: uvMask, enabled: false },
+      { id: 'emboss', kind: 'emboss', mask: embossHeightMap, enabled: false },
+      { id: 'letterpress', kind: 'letterpress', mask: letterpressPlate, enabled: false }
+    ]);
+
+    // The back has its own foil and UV (see setBackLayerEnabled)
+    const backLayers = new LayerStack([
+      { id: 'foil', kind: 'foil', mask: backFoilMask, enabled: false },
+      { id: 'uv', kind: 'spotUV', mask: backUVMask, enabled: false }
+    ]);
+
+    this.materials = MaterialPipeline.createCardMaterialSet({
+      front: { artwork: artworkTexture, layers: frontLayers },
+      back: { artwork: backArtworkTexture, layers: backLayers }
     });
 
-    // Step 6: Combine into mesh and add to scene
-    this.cardMesh = new THREE.Mesh(this.cardGeometry.geometry, this.material);
+    // Reflections follow the scene environment once the HDR has loaded
+    this.engineController.onEnvironmentChange(environment => {
+      this.forEachMaterial(material => MaterialPipeline.setEnvironment(material, environment));
+    });
+
+    // Step 6: Combine into mesh (one material per geometry group) and add to scene
+    this.cardMesh = new THREE.Mesh(this.cardGeometry.geometry, MaterialPipeline.getFaceMaterials(this.materials));
     this.engineController.add(this.cardMesh);
 
-    // Step 7: Start render loop
+    // Step 7: Drive geometry and materials from the configuration
+    this.binding = new ConfigurationBinding(
+      this.config,
+      { geometry: this.cardGeometry, mesh: this.cardMesh, materials: this.materials },
+      {
+        artwork: { front: artworkTexture, back: backArtworkTexture },
+        masks: {
+          front: { foil: foilMask, uv: uvMask, emboss: embossHeightMap, letterpress: letterpressPlate },
+          back: { foil: backFoilMask, uv: backUVMask }
+        }
+      }
+    );
+
+    // Trim, bleed and safe-zone guides (hidden until toggled), refitted whenever the card is rebuilt
+    this.printGuides = new PrintGuides(this.cardGeometry, this.materials);
+    this.cardMesh.add(this.printGuides.object);
+    this.binding.onGeometryChange(() => this.printGuides.update());
+
+    // Undo/redo of every configuration change
+    this.history = new ConfigurationHistory(this.config);
+
+    // Alt + drag moves the artwork of the face under the pointer (one undo step per drag)
+    this.artworkDrag = new ArtworkDragController(
+      this.engineController,
+      this.cardMesh,
+      (face, delta) => {
+        const placement = this.config.state.faces[face].placement;
+        this.history.coalesce(`${face} artwork position`, () => {
+          this.config.updateFace(face, {
+            placement: { ...placement, offsetX: placement.offsetX + delta.x, offsetY: placement.offsetY + delta.y }
+          });
+        });
+      },
+      () => this.history.endCoalescing()
+    );
+
+    // Step 8: Start render loop
     this.engineController.start();
 
     // Set up update loop for material uniforms
     this.setupUpdateLoop();
 
-    // Set up UI and controls
+    // Set up UI and controls; the UI shows the configuration and writes to it
     this.setupUI();
     this.setupEventListeners();
-    this.updatePrice();
+    this.config.subscribe(({ state, keys }) => {
+      if (keys.has('product')) {
+        this.renderCatalogue();
+      }
+      this.renderConfiguration(state);
+      this.scheduleLinkUpdate();
+    });
+    this.history.subscribe(() => this.renderHistory());
+    this.renderCatalogue();
+    this.renderConfiguration(this.config.state);
+    this.renderHistory();
     this.showStep('size');
 
     // Expose global functions for development controls
@@ -167,95 +345,487 @@ export class TestHarness {
 
   /**
    * Expose global functions for development controls
+   * Card settings go through the configuration; the preview-only ones act on the view directly
    */
   private exposeGlobalControls(): void {
+    const config = this.config;
+
     // Global functions for changing dimensions
     (window as any).setCardWidth = (width: number) => {
-      this.width = width;
-      this.updateDimensions();
-      if (this.widthSlider) {
-        this.widthSlider.value = width.toString();
-        this.updateValueDisplay('width-value', `${width} mm`);
-      }
+      config.update({ width, sizePreset: 'custom' });
     };
 
     (window as any).setCardHeight = (height: number) => {
-      this.height = height;
-      this.updateDimensions();
-      if (this.heightSlider) {
-        this.heightSlider.value = height.toString();
-        this.updateValueDisplay('height-value', `${height} mm`);
-      }
+      config.update({ height, sizePreset: 'custom' });
     };
 
     (window as any).setCardThickness = (thickness: number) => {
-      this.thickness = thickness;
-      this.updateDimensions();
-      // Update thickness option selection
-      if (this.thicknessOptions) {
-        this.thicknessOptions.forEach(option => {
-          const optionThickness = parseFloat(option.getAttribute('data-thickness') || '0');
-          if (Math.abs(optionThickness - thickness) < 0.1) {
-            this.thicknessOptions!.forEach(opt => opt.classList.remove('selected'));
-            option.classList.add('selected');
-          }
-        });
-      }
+      config.update({ thickness });
+    };
+
+    (window as any).setCardThicknessPt = (pt: number) => {
+      config.update({ thickness: ptToMm(pt) });
+    };
+
+    (window as any).setThicknessExaggeration = (factor: number) => {
+      this.thicknessExaggeration = factor;
+      this.cardGeometry.setThicknessExaggeration(factor);
+      this.binding.refreshGeometry();
+      this.renderConfiguration(config.state);
     };
 
     (window as any).setCardCornerRadius = (radius: number) => {
-      this.cornerRadius = radius;
-      this.updateDimensions();
-      if (this.cornerRadiusSlider) {
-        this.cornerRadiusSlider.value = radius.toString();
-        this.updateValueDisplay('corner-radius-value', `${radius} mm`);
+      config.update({ cornerRadius: radius, corners: null });
+    };
+
+    (window as any).setCardCorners = (corners: Partial<CornerSpecs>) => {
+      const state = config.state;
+      config.update({ corners: { ...(state.corners ?? uniformCorners(state.cornerRadius)), ...corners } });
+    };
+
+    (window as any).setCutouts = (cutouts: Cutout[]) => {
+      config.update({ cutouts });
+    };
+
+    (window as any).addCutout = (cutout: Cutout) => {
+      config.update({ cutouts: [...config.state.cutouts, cutout] });
+    };
+
+    (window as any).setDieCut = (svgPath: string | null) => {
+      if (!svgPath) {
+        config.update({ dieCut: null });
+        return;
       }
+      // The outline keeps its proportions at the current width
+      const size = new THREE.Box2().setFromPoints(outlineFromSVGPath(svgPath, config.state.width).getPoints()).getSize(new THREE.Vector2());
+      config.update({ dieCut: svgPath, height: size.y, sizePreset: 'custom' });
     };
 
     // Global functions for toggling layers
-    // Note: With new shader structure, layers are always active based on mask values
-    // Toggles can be implemented by swapping between mask texture and black texture
+    // Toggles drive the layer enable uniforms, so the card updates without a shader rebuild
     (window as any).toggleFoil = (enabled?: boolean) => {
-      // Layer effects are controlled by mask textures
-      // For now, just update UI state
-      if (this.foilToggle) {
-        const newState = enabled !== undefined ? enabled : !this.foilToggle.classList.contains('active');
-        if (newState) {
-          this.foilToggle.classList.add('active');
-        } else {
-          this.foilToggle.classList.remove('active');
-        }
-      }
-      this.updatePrice();
+      this.toggleLayer('foil', enabled);
     };
 
     (window as any).toggleUV = (enabled?: boolean) => {
-      if (this.uvToggle) {
-        const newState = enabled !== undefined ? enabled : !this.uvToggle.classList.contains('active');
-        if (newState) {
-          this.uvToggle.classList.add('active');
-        } else {
-          this.uvToggle.classList.remove('active');
-        }
-      }
-      this.updatePrice();
+      this.toggleLayer('spotUV', enabled);
     };
 
     (window as any).toggleEmboss = (enabled?: boolean) => {
-      if (this.embossToggle) {
-        const newState = enabled !== undefined ? enabled : !this.embossToggle.classList.contains('active');
-        if (newState) {
-          this.embossToggle.classList.add('active');
-        } else {
-          this.embossToggle.classList.remove('active');
+      this.toggleLayer('emboss', enabled);
+    };
+
+    (window as any).toggleLetterpress = (enabled?: boolean) => {
+      this.toggleLayer('letterpress', enabled);
+    };
+
+    (window as any).setLetterpress = (options: Partial<LetterpressParams> = {}, inkColor?: string) => {
+      const params = options.blind ? getBlindLetterpress(options.depth) : getLetterpress(options);
+      config.update({ letterpress: { ...params, inkColor: inkColor ?? config.state.letterpress.inkColor } });
+    };
+
+    (window as any).setFoilChannels = (path: string, channels: FoilChannelSettings[], face: PrintedFace = 'front') => {
+      config.updateFace(face, { foilChannels: { mask: path, channels } });
+    };
+
+    (window as any).clearFoilChannels = (face: PrintedFace = 'front') => {
+      config.updateFace(face, { foilChannels: null });
+    };
+
+    (window as any).setBackLayerEnabled = (kind: LayerKind, enabled: boolean) => {
+      config.updateLayer('back', kind, { enabled });
+    };
+
+    (window as any).setLayerIntensity = (kind: LayerKind, value: number, face: PrintedFace = 'front') => {
+      config.updateLayer(face, kind, { intensity: THREE.MathUtils.clamp(value, 0, 1) });
+    };
+
+    (window as any).setFoilPreset = (name: FoilPresetName, tint?: string, face: PrintedFace = 'front') => {
+      const foil = config.state.faces[face].foil;
+      config.updateFace(face, { foil: { ...foil, preset: name, tint: tint ?? null } });
+    };
+
+    (window as any).setUVFinish = (gloss: number, thickness?: number) => {
+      config.update({ spotUV: { gloss, thickness: thickness ?? config.state.spotUV.thickness } });
+    };
+
+    (window as any).setEmbossDepth = (depthMm: number, direction: 'emboss' | 'deboss' = 'emboss') => {
+      config.update({ emboss: { ...config.state.emboss, depth: depthMm, direction } });
+    };
+
+    (window as any).setEmbossDisplacement = (enabled: boolean, gridCellSize?: number) => {
+      const emboss = config.state.emboss;
+      config.update({ emboss: { ...emboss, displacement: enabled, gridCellSize: gridCellSize ?? emboss.gridCellSize } });
+    };
+
+    (window as any).setHolographicFoil = (pattern: HolographicPattern, scale: number = 1.0, face: PrintedFace = 'front') => {
+      const foil = config.state.faces[face].foil;
+      config.updateFace(face, { foil: { ...foil, preset: 'holographic', pattern, patternScale: scale } });
+    };
+
+    (window as any).setEdgeFinish = (mode: EdgeFinish['mode'], value?: string) => {
+      const edge = config.state.edge;
+      config.update({
+        edge: {
+          mode,
+          paintColor: mode === 'painted' ? value ?? edge.paintColor : edge.paintColor,
+          foil: mode === 'foil' ? (value as FoilPresetName) ?? edge.foil : edge.foil
         }
-      }
-      this.updatePrice();
+      });
+    };
+
+    (window as any).setPlyStock = (name: PlyStockName, colors?: string[]) => {
+      config.update({ plyStock: name, plyColors: colors ?? null });
+    };
+
+    (window as any).setPaperStock = (name: PaperStockName) => {
+      config.update({ paperStock: name });
+    };
+
+    (window as any).setSubstrate = (name: SubstrateName) => {
+      config.update({ substrate: name });
+    };
+
+    (window as any).setLamination = (name: LaminationName) => {
+      config.update({ lamination: name });
+    };
+
+    (window as any).setArtwork = (path: string, face: PrintedFace = 'front', bleedMm?: number) => {
+      const placement = config.state.faces[face].placement;
+      config.updateFace(face, { artwork: path, placement: bleedMm !== undefined ? { ...placement, bleed: bleedMm } : placement });
+    };
+
+    (window as any).setArtworkPlacement = (placement: Partial<ArtworkPlacement>, face: PrintedFace = 'front') => {
+      config.updateFace(face, { placement: { ...config.state.faces[face].placement, ...placement } });
+    };
+
+    (window as any).togglePrintProof = (enabled?: boolean) => {
+      this.togglePrintProof(enabled);
+    };
+
+    (window as any).toggleGamutWarning = (enabled?: boolean) => {
+      this.toggleGamutWarning(enabled);
     };
 
+    (window as any).loadProofLUT = async (path: string) => {
+      const lut = await ResourceManager.loadCubeLUT(path);
+      console.log(`Proof LUT loaded: ${lut.title || path} (${lut.size}³)`);
+      this.printProof.lut = lut;
+      this.applyPrintProof();
+    };
+
+    (window as any).setGamutTolerance = (tolerance: number) => {
+      this.printProof.gamutTolerance = tolerance;
+      this.applyPrintProof();
+    };
+
+    (window as any).togglePrintGuides = (enabled?: boolean) => {
+      this.togglePrintGuides(enabled);
+    };
+
+    (window as any).setPrintGuides = (options: Partial<PrintGuideOptions>) => {
+      this.printGuides.setOptions(options);
+    };
+
+    (window as any).setLayerMask = (layerId: string, path: string, face: PrintedFace = 'front') => {
+      config.updateFace(face, { masks: { ...config.state.faces[face].masks, [layerId]: path } });
+    };
+
+    (window as any).getConfiguration = () => config.snapshot();
+
+    (window as any).setProduct = (id: string) => this.selectProduct(id);
+    (window as any).getCatalogue = () => structuredClone(this.catalogue);
+
+    (window as any).getShareLink = () => configurationLinkURL(config.state, window.location.href);
+
+    (window as any).undo = () => this.history.undo();
+    (window as any).redo = () => this.history.redo();
+
     console.log('Global controls exposed:');
-    console.log('  setCardWidth(width), setCardHeight(height), setCardThickness(thickness), setCardCornerRadius(radius)');
-    console.log('  toggleFoil(enabled?), toggleUV(enabled?), toggleEmboss(enabled?)');
+    console.log('  setCardWidth(width), setCardHeight(height), setCardThickness(thicknessMm), setCardThicknessPt(pt), setCardCornerRadius(radius)');
+    console.log('  setThicknessExaggeration(factor >= 1): show the edge thicker without changing the real caliper');
+    console.log('  setCardCorners({ topLeft: { style: square|round|chamfer|notch, radius }, ... })');
+    console.log('  setDieCut(svgPathData | null)');
+    console.log('  addCutout({ shape: circle|slot|roundedRect, x, y, ... }), setCutouts([...])');
+    console.log('  toggleFoil(enabled?), toggleUV(enabled?), toggleEmboss(enabled?), setLayerIntensity(kind, value, face?)');
+    console.log('  setFoilChannels(maskPath, [{ source: r|g|b|a or #keyColour, preset, tint? }, ...], front|back), clearFoilChannels(face?)');
+    console.log('  toggleLetterpress(enabled?), setLetterpress({ depth, inkSpread, blind }, inkColor?)');
+    console.log('  setBackLayerEnabled(foil|spotUV, enabled)');
+    console.log('  setFoilPreset(gold|silver|copper|roseGold|black|holographic|custom, tint?, face?)');
+    console.log('  setHolographicFoil(rainbow|pillar|shatteredGlass, scale?, face?)');
+    console.log('  setEdgeFinish(stock|painted|foil, color or foil preset?), setPlyStock(single|duplex|triplex, colors?)');
+    console.log('  setPaperStock(silk|linen|felt|cotton|laid), setLamination(none|matte|gloss|softTouch)');
+    console.log('  setSubstrate(paper|clearPVC|frostedPVC|brushedSteel)');
+    console.log('  setArtwork(path, front|back, bleedMm?), setLayerMask(layerId, path, front|back)');
+    console.log('  setArtworkPlacement({ fit: contain|cover|stretch, offsetX, offsetY, scale, rotation, bleed }, front|back)');
+    console.log('  togglePrintGuides(enabled?), setPrintGuides({ bleed, safeMargin, background })');
+    console.log('  togglePrintProof(enabled?), toggleGamutWarning(enabled?), loadProofLUT(cubePath), setGamutTolerance(0..1.7)');
+    console.log('  Alt + drag on the card moves the artwork');
+    console.log('  setUVFinish(gloss 0..1, thicknessMm?)');
+    console.log('  setEmbossDepth(depthMm, emboss|deboss), setEmbossDisplacement(enabled, gridCellSizeMm?)');
+    console.log('  getConfiguration(): copy of the current card configuration');
+    console.log('  getShareLink(): URL that opens this card (#card=...)');
+    console.log(`  setProduct(${this.catalogue.products.map(product => product.id).join('|')}), getCatalogue()`);
+    console.log('  undo(), redo() (Ctrl+Z, Ctrl+Shift+Z)');
+  }
+
+  /**
+   * Toggle the print proof (press colours, no filmic tone mapping) and the preview button state
+   */
+  private togglePrintProof(enabled?: boolean): void {
+    this.printProofEnabled = enabled !== undefined ? enabled : !this.printProofEnabled;
+    this.proofBtn?.classList.toggle('active', this.printProofEnabled);
+    this.applyPrintProof();
+  }
+
+  /**
+   * Toggle hatching of out-of-gamut artwork (visible while proofing)
+   */
+  private toggleGamutWarning(enabled?: boolean): void {
+    this.printProof.gamutWarning = enabled !== undefined ? enabled : !this.printProof.gamutWarning;
+    this.gamutBtn?.classList.toggle('active', this.printProof.gamutWarning);
+    this.applyPrintProof();
+  }
+
+  private applyPrintProof(): void {
+    this.forEachPrintedMaterial(material =>
+      MaterialPipeline.setPrintProof(material, this.printProofEnabled ? this.printProof : null)
+    );
+  }
+
+  /**
+   * Toggle the trim/bleed/safe-zone guides and the preview button state
+   */
+  private togglePrintGuides(enabled?: boolean): void {
+    const newState = enabled !== undefined ? enabled : !this.printGuides.isEnabled;
+    this.guidesBtn?.classList.toggle('active', newState);
+    this.printGuides.setEnabled(newState);
+  }
+
+  /**
+   * Toggle a print layer on the front face
+   */
+  private toggleLayer(kind: LayerKind, enabled?: boolean): void {
+    const current = this.config.state.faces.front.layers[kind]?.enabled ?? false;
+    this.config.updateLayer('front', kind, { enabled: enabled !== undefined ? enabled : !current });
+  }
+
+  /**
+   * Show the configuration in the configurator: selections, readouts, foil legend and price
+   */
+  private renderConfiguration(state: CardConfigurationState): void {
+    // Product and card size
+    this.productOptions?.forEach(option => option.classList.toggle('selected', option.dataset.product === state.product));
+    this.sizeOptionCards?.forEach(card => card.classList.toggle('selected', card.getAttribute('data-size') === state.sizePreset));
+    this.customSizeToggle?.classList.toggle('active', state.sizePreset === 'custom');
+    if (this.customSizeControls) {
+      this.customSizeControls.style.display = state.sizePreset === 'custom' ? 'block' : 'none';
+    }
+    if (this.widthSlider) this.widthSlider.value = state.width.toString();
+    if (this.heightSlider) this.heightSlider.value = state.height.toString();
+    if (this.cornerRadiusSlider) this.cornerRadiusSlider.value = state.cornerRadius.toString();
+    this.updateValueDisplay('width-value', formatLength(state.width));
+    this.updateValueDisplay('height-value', formatLength(state.height));
+    this.updateValueDisplay('corner-radius-value', formatLength(state.cornerRadius));
+
+    // Thickness (options are in caliper points)
+    this.thicknessOptions?.forEach(option => {
+      const optionPt = parseFloat(option.getAttribute('data-thickness-pt') || '0');
+      option.classList.toggle('selected', Math.abs(optionPt - mmToPt(state.thickness)) < 0.5);
+    });
+    if (this.exaggerationSlider) this.exaggerationSlider.value = this.thicknessExaggeration.toString();
+    this.updateThicknessDisplay(state);
+
+    // Material, edge and finish
+    this.materialOptions?.forEach(option => {
+      const substrate = option.getAttribute('data-substrate');
+      const selected = substrate
+        ? substrate === state.substrate
+        : state.substrate === 'paper' && option.getAttribute('data-stock') === state.paperStock;
+      option.classList.toggle('selected', selected);
+    });
+    this.edgeFinishOptions?.forEach(option => {
+      const mode = option.getAttribute('data-edge-finish');
+      const foil = option.getAttribute('data-foil');
+      option.classList.toggle('selected', mode === state.edge.mode && (mode !== 'foil' || foil === state.edge.foil));
+    });
+    this.colorSwatches?.forEach(swatch => {
+      swatch.classList.toggle('selected', swatch.getAttribute('data-color')?.toLowerCase() === state.edge.paintColor.toLowerCase());
+    });
+    this.plyOptions?.forEach(option => option.classList.toggle('selected', option.getAttribute('data-plies') === state.plyStock));
+    this.finishOptions?.forEach(option => option.classList.toggle('selected', option.getAttribute('data-lamination') === state.lamination));
+
+    // Print layers
+    for (const [kind, toggle] of Object.entries(this.layerToggles) as [LayerKind, HTMLElement | null][]) {
+      toggle?.classList.toggle('active', state.faces.front.layers[kind]?.enabled ?? false);
+    }
+    this.updateFoilLegend(state);
+
+    // Cutouts the geometry rejected are not cut, so the price counts the ones actually built
+    if (this.priceDisplay) {
+      this.priceDisplay.textContent = `£${priceConfiguration(state, this.prices, this.cardGeometry.cutoutCount).toFixed(2)}`;
+    }
+  }
+
+  /**
+   * Enable the undo/redo buttons when there is a step to undo/redo, named in their tooltips
+   */
+  private renderHistory(): void {
+    if (this.undoBtn) {
+      this.undoBtn.disabled = !this.history.canUndo;
+      this.undoBtn.title = this.history.canUndo ? `Undo ${this.history.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)';
+    }
+    if (this.redoBtn) {
+      this.redoBtn.disabled = !this.history.canRedo;
+      this.redoBtn.title = this.history.canRedo ? `Redo ${this.history.redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)';
+    }
+  }
+
+  /**
+   * List the foil assigned to each mask channel or indexed colour, per face
+   */
+  private updateFoilLegend(state: CardConfigurationState): void {
+    const items = this.foilLegend?.querySelector('.foil-legend-items');
+    if (!this.foilLegend || !items) return;
+
+    items.replaceChildren();
+    for (const face of ['front', 'back'] as const) {
+      for (const settings of state.faces[face].foilChannels?.channels ?? []) {
+        const channel = getFoilChannel(settings.source, settings.preset, settings.tint);
+        const item = document.createElement('div');
+        item.className = 'foil-legend-item';
+
+        const swatch = document.createElement('span');
+        swatch.className = 'foil-legend-swatch';
+        swatch.style.background = channel.foil.holographic
+          ? 'linear-gradient(135deg, #ff8ad8, #8ad8ff, #d8ff8a)'
+          : `#${channel.foil.color.getHexString()}`;
+
+        const name = document.createElement('span');
+        name.textContent = FOIL_PRESET_LABELS[channel.preset];
+
+        const source = document.createElement('span');
+        source.className = 'foil-legend-source';
+        source.textContent = `${face === 'back' ? 'Back, ' : ''}${
+          channel.source instanceof THREE.Color ? `colour #${channel.source.getHexString()}` : `${MASK_CHANNEL_LABELS[channel.source]} channel`
+        }`;
+        if (channel.source instanceof THREE.Color) {
+          source.style.borderBottom = `3px solid #${channel.source.getHexString()}`;
+        }
+
+        item.append(swatch, name, source);
+        items.appendChild(item);
+      }
+    }
+
+    this.foilLegend.style.display = items.childElementCount > 0 ? '' : 'none';
+  }
+
+  /**
+   * Build the configurator options from the configured product in the catalogue
+   * (again whenever the product changes)
+   */
+  private renderCatalogue(): void {
+    const product = this.product;
+    this.prices = productPrices(product);
+    renderCatalogueSections(this.catalogue, product, this.prices);
+
+    this.productOptions = document.querySelectorAll('.product-option');
+    this.sizeOptionCards = document.querySelectorAll('.size-option-card');
+    this.thicknessOptions = document.querySelectorAll('.thickness-option');
+    this.materialOptions = document.querySelectorAll('#material-options .option-item');
+    this.colorSwatches = document.querySelectorAll('.color-swatch');
+    this.edgeFinishOptions = document.querySelectorAll('.edge-finish-option');
+    this.plyOptions = document.querySelectorAll('.ply-option');
+    this.finishOptions = document.querySelectorAll('#finish-options .option-item');
+    this.layerToggles = {};
+    document.querySelectorAll<HTMLElement>('#layer-toggles [data-layer]').forEach(toggle => {
+      this.layerToggles[toggle.dataset.layer as LayerKind] = toggle;
+    });
+
+    // Custom sizes, within the product's ranges
+    const range = product.customSize;
+    if (this.customSizeToggle) {
+      this.customSizeToggle.style.display = range ? '' : 'none';
+    }
+    if (range) {
+      const setRange = (slider: HTMLInputElement | null, [min, max]: [number, number]) => {
+        if (slider) {
+          slider.min = min.toString();
+          slider.max = max.toString();
+        }
+      };
+      setRange(this.widthSlider, range.width);
+      setRange(this.heightSlider, range.height);
+      setRange(this.cornerRadiusSlider, range.cornerRadius);
+    }
+  }
+
+  /**
+   * The configured catalogue product
+   */
+  private get product(): Product {
+    return getProduct(this.catalogue, this.config.state.product);
+  }
+
+  /**
+   * Configuration to open: a shared card brought within what its product offers, or the
+   * defaults of the catalogue's first product
+   */
+  private openingConfiguration(configuration?: CardConfigurationState): CardConfigurationState {
+    if (!configuration) {
+      return productConfiguration(getProduct(this.catalogue));
+    }
+
+    let product: Product;
+    try {
+      product = getProduct(this.catalogue, configuration.product);
+    } catch {
+      product = getProduct(this.catalogue);
+      console.warn(`Product "${configuration.product}" is not in the catalogue; opening the card as ${product.name}`);
+    }
+
+    const { state, warnings } = conformToProduct(configuration, product);
+    warnings.forEach(warning => console.warn(`Shared card: ${warning}`));
+    return state;
+  }
+
+  /**
+   * Switch to another catalogue product: its defaults, keeping the artwork and the print layers it can carry
+   */
+  private selectProduct(id: string): void {
+    const product = getProduct(this.catalogue, id);
+    if (product.id !== this.config.state.product) {
+      this.config.update(conformToProduct({ ...this.config.state, ...productDefaults(product) }, product).state);
+    }
+  }
+
+  /**
+   * Call back with the option clicked inside a container
+   * (listens on the container, since the options are rebuilt whenever the product changes)
+   */
+  private onOptionClick(containerId: string, selector: string, callback: (option: HTMLElement) => void): void {
+    document.getElementById(containerId)?.addEventListener('click', event => {
+      const option = (event.target as HTMLElement).closest<HTMLElement>(selector);
+      if (option) {
+        callback(option);
+      }
+    });
+  }
+
+  /**
+   * Visit every face material (front, back, edge)
+   */
+  private forEachMaterial(callback: (material: THREE.ShaderMaterial) => void): void {
+    MaterialPipeline.getFaceMaterials(this.materials).forEach(callback);
+  }
+
+  /**
+   * Visit the printed face materials (front and back)
+   */
+  private forEachPrintedMaterial(callback: (material: THREE.ShaderMaterial) => void): void {
+    callback(this.materials.front);
+    callback(this.materials.back);
   }
 
   /**
@@ -265,13 +835,18 @@ export class TestHarness {
     this.previewPanel = document.getElementById('preview-panel');
     this.fullscreenBtn = document.getElementById('fullscreen-btn');
     this.screenshotBtn = document.getElementById('screenshot-btn');
+    this.shareBtn = document.getElementById('share-btn');
+    this.guidesBtn = document.getElementById('guides-btn');
+    this.proofBtn = document.getElementById('proof-btn');
+    this.gamutBtn = document.getElementById('gamut-btn');
+    this.undoBtn = document.getElementById('undo-btn') as HTMLButtonElement;
+    this.redoBtn = document.getElementById('redo-btn') as HTMLButtonElement;
     this.stepButtons = document.querySelectorAll('.step-btn');
     this.configSections = document.querySelectorAll('.config-section');
     this.priceDisplay = document.getElementById('total-price');
     this.addToCartBtn = document.getElementById('add-to-cart-btn');
 
-    // Size options
-    this.sizeOptionCards = document.querySelectorAll('.size-option-card');
+    // Custom size (the size options themselves are generated, see renderCatalogue)
     this.customSizeToggle = document.getElementById('custom-size-toggle');
     this.customSizeControls = document.getElementById('custom-size-controls');
 
@@ -280,29 +855,18 @@ export class TestHarness {
     this.heightSlider = document.getElementById('height-slider') as HTMLInputElement;
     this.cornerRadiusSlider = document.getElementById('corner-radius-slider') as HTMLInputElement;
 
-    // Thickness options
-    this.thicknessOptions = document.querySelectorAll('.thickness-option');
-
-    // Layer toggles
-    this.foilToggle = document.getElementById('foil-toggle');
-    this.uvToggle = document.getElementById('uv-toggle');
-    this.embossToggle = document.getElementById('emboss-toggle');
-
-    // Option items
-    this.materialOptions = document.querySelectorAll('[data-step="material"] .option-item');
-    this.colorSwatches = document.querySelectorAll('.color-swatch');
-    this.finishOptions = document.querySelectorAll('[data-step="finish"] .option-item');
+    this.exaggerationSlider = document.getElementById('thickness-exaggeration-slider') as HTMLInputElement;
 
-    // Set initial slider values (for custom size)
-    if (this.widthSlider) this.widthSlider.value = this.width.toString();
-    if (this.heightSlider) this.heightSlider.value = this.height.toString();
-    if (this.cornerRadiusSlider) this.cornerRadiusSlider.value = this.cornerRadius.toString();
+    this.foilLegend = document.getElementById('foil-legend');
   }
 
   /**
    * Set up event listeners
+   * Controls only write to the configuration; renderConfiguration shows the result
    */
   private setupEventListeners(): void {
+    const config = this.config;
+
     // Fullscreen toggle
     if (this.fullscreenBtn) {
       this.fullscreenBtn.addEventListener('click', () => this.toggleFullscreen());
@@ -313,6 +877,43 @@ export class TestHarness {
       this.screenshotBtn.addEventListener('click', () => this.takeScreenshot());
     }
 
+    // Share link button
+    if (this.shareBtn) {
+      this.shareBtn.addEventListener('click', () => this.copyShareLink());
+    }
+
+    // A link pasted into the address bar opens that card (undoable)
+    window.addEventListener('hashchange', () => {
+      const link = readConfigurationLink(window.location);
+      if (!link) {
+        return;
+      }
+      try {
+        this.config.replace(this.openingConfiguration(link.state));
+      } catch (error) {
+        console.warn(`Configuration link not opened: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    // Print proof toggle
+    if (this.proofBtn) {
+      this.proofBtn.addEventListener('click', () => this.togglePrintProof());
+    }
+
+    // Gamut warning toggle
+    if (this.gamutBtn) {
+      this.gamutBtn.addEventListener('click', () => this.toggleGamutWarning());
+    }
+
+    // Undo / redo
+    this.undoBtn?.addEventListener('click', () => this.history.undo());
+    this.redoBtn?.addEventListener('click', () => this.history.redo());
+
+    // Print guides toggle
+    if (this.guidesBtn) {
+      this.guidesBtn.addEventListener('click', () => this.togglePrintGuides());
+    }
+
     // Step navigation
     if (this.stepButtons) {
       this.stepButtons.forEach(btn => {
@@ -325,163 +926,87 @@ export class TestHarness {
       });
     }
 
+    // Product options
+    this.onOptionClick('product-options', '.product-option', option => this.selectProduct(option.dataset.product || ''));
+
     // Size option cards
-    if (this.sizeOptionCards) {
-      this.sizeOptionCards.forEach(card => {
-        card.addEventListener('click', () => {
-          // Deselect all cards
-          this.sizeOptionCards!.forEach(c => c.classList.remove('selected'));
-          // Select clicked card
-          card.classList.add('selected');
-          
-          // Get dimensions from data attributes
-          const width = parseFloat(card.getAttribute('data-width') || '88.9');
-          const height = parseFloat(card.getAttribute('data-height') || '50.8');
-          
-          this.width = width;
-          this.height = height;
-          this.isCustomSize = false;
-          
-          // Hide custom controls
-          if (this.customSizeControls) {
-            this.customSizeControls.style.display = 'none';
-          }
-          
-          this.updateDimensions();
-          this.updatePrice();
-        });
-      });
-    }
+    this.onOptionClick('size-options', '.size-option-card', card => {
+      const size = this.product.sizes.find(entry => entry.id === card.dataset.size);
+      if (size) {
+        config.update({ sizePreset: size.id, width: size.width, height: size.height });
+      }
+    });
 
-    // Custom size toggle
-    if (this.customSizeToggle) {
-      this.customSizeToggle.addEventListener('click', () => {
-        // Deselect all size option cards
-        if (this.sizeOptionCards) {
-          this.sizeOptionCards.forEach(card => card.classList.remove('selected'));
-        }
-        
-        // Toggle custom controls visibility
-        if (this.customSizeControls) {
-          const isVisible = this.customSizeControls.style.display !== 'none';
-          this.customSizeControls.style.display = isVisible ? 'none' : 'block';
-          this.isCustomSize = !isVisible;
-          
-          // If enabling custom size, update sliders to current values
-          if (!isVisible) {
-            if (this.widthSlider) this.widthSlider.value = this.width.toString();
-            if (this.heightSlider) this.heightSlider.value = this.height.toString();
-            if (this.cornerRadiusSlider) this.cornerRadiusSlider.value = this.cornerRadius.toString();
-            this.updateValueDisplay('width-value', `${this.width} mm`);
-            this.updateValueDisplay('height-value', `${this.height} mm`);
-            this.updateValueDisplay('corner-radius-value', `${this.cornerRadius} mm`);
-          }
-        }
-      });
-    }
+    // Custom size keeps the current dimensions and shows the sliders
+    this.customSizeToggle?.addEventListener('click', () => {
+      config.update({ sizePreset: 'custom' });
+    });
 
-    // Custom size sliders (only active when custom size is enabled)
-    if (this.widthSlider) {
-      this.widthSlider.addEventListener('input', () => {
-        if (this.isCustomSize) {
-          this.width = parseFloat(this.widthSlider!.value);
-          this.updateDimensions();
-          this.updateValueDisplay('width-value', `${this.width} mm`);
-          this.updatePrice();
-        }
+    // Custom size sliders (only shown for a custom size); a drag is one undo step, ended on release
+    this.widthSlider?.addEventListener('input', () => {
+      this.history.coalesce('width', () => {
+        config.update({ width: parseFloat(this.widthSlider!.value), sizePreset: 'custom' });
       });
-    }
+    });
 
-    if (this.heightSlider) {
-      this.heightSlider.addEventListener('input', () => {
-        if (this.isCustomSize) {
-          this.height = parseFloat(this.heightSlider!.value);
-          this.updateDimensions();
-          this.updateValueDisplay('height-value', `${this.height} mm`);
-          this.updatePrice();
-        }
+    this.heightSlider?.addEventListener('input', () => {
+      this.history.coalesce('height', () => {
+        config.update({ height: parseFloat(this.heightSlider!.value), sizePreset: 'custom' });
       });
-    }
+    });
 
-    if (this.cornerRadiusSlider) {
-      this.cornerRadiusSlider.addEventListener('input', () => {
-        if (this.isCustomSize) {
-          this.cornerRadius = parseFloat(this.cornerRadiusSlider!.value);
-          this.updateDimensions();
-          this.updateValueDisplay('corner-radius-value', `${this.cornerRadius} mm`);
-        }
+    this.cornerRadiusSlider?.addEventListener('input', () => {
+      this.history.coalesce('corner radius', () => {
+        config.update({ cornerRadius: parseFloat(this.cornerRadiusSlider!.value), corners: null });
       });
-    }
+    });
 
-    // Thickness options
-    if (this.thicknessOptions) {
-      this.thicknessOptions.forEach(option => {
-        option.addEventListener('click', () => {
-          // Deselect all thickness options
-          this.thicknessOptions!.forEach(opt => opt.classList.remove('selected'));
-          // Select clicked option
-          option.classList.add('selected');
-          
-          // Get thickness from data attribute (in mm)
-          const thickness = parseFloat(option.getAttribute('data-thickness') || '5.64');
-          this.thickness = thickness;
-          
-          this.updateDimensions();
-          this.updatePrice();
-        });
-      });
-    }
+    [this.widthSlider, this.heightSlider, this.cornerRadiusSlider].forEach(slider => {
+      slider?.addEventListener('change', () => this.history.endCoalescing());
+    });
+
+    // Thickness options: stock is sold by caliper points; the configuration is real-scale mm
+    this.onOptionClick('thickness-options', '.thickness-option', option => {
+      config.update({ thickness: ptToMm(parseFloat(option.dataset.thicknessPt || '16')) });
+    });
+
+    // Edge-on exaggeration (visual only)
+    this.exaggerationSlider?.addEventListener('input', () => {
+      (window as any).setThicknessExaggeration(parseFloat(this.exaggerationSlider!.value));
+    });
 
     // Layer toggles
-    if (this.foilToggle) {
-      this.foilToggle.addEventListener('click', () => {
-        (window as any).toggleFoil();
-      });
-    }
+    this.onOptionClick('layer-toggles', '[data-layer]', toggle => this.toggleLayer(toggle.dataset.layer as LayerKind));
 
-    if (this.uvToggle) {
-      this.uvToggle.addEventListener('click', () => {
-        (window as any).toggleUV();
-      });
-    }
+    // Material options: a paper stock, or a plastic/metal substrate
+    this.onOptionClick('material-options', '.option-item', option => {
+      const substrate = option.dataset.substrate as SubstrateName | undefined;
+      const stock = option.dataset.stock as PaperStockName | undefined;
+      config.update(substrate ? { substrate } : { substrate: 'paper', ...(stock ? { paperStock: stock } : {}) });
+    });
 
-    if (this.embossToggle) {
-      this.embossToggle.addEventListener('click', () => {
-        (window as any).toggleEmboss();
-      });
-    }
+    // Edge finish options
+    this.onOptionClick('edge-finish-options', '.edge-finish-option', option => {
+      const mode = (option.dataset.edgeFinish || 'stock') as EdgeFinish['mode'];
+      const foil = option.dataset.foil as FoilPresetName | undefined;
+      config.update({ edge: { ...config.state.edge, mode, ...(foil ? { foil } : {}) } });
+    });
 
-    // Material options
-    if (this.materialOptions) {
-      this.materialOptions.forEach(option => {
-        option.addEventListener('click', () => {
-          this.materialOptions!.forEach(opt => opt.classList.remove('selected'));
-          option.classList.add('selected');
-          this.updatePrice();
-        });
-      });
-    }
+    // Color swatches (picking a colour paints the edge)
+    this.onOptionClick('color-swatches', '.color-swatch', swatch => {
+      const paintColor = swatch.dataset.color || config.state.edge.paintColor;
+      config.update({ edge: { ...config.state.edge, mode: 'painted', paintColor } });
+    });
 
-    // Color swatches
-    if (this.colorSwatches) {
-      this.colorSwatches.forEach(swatch => {
-        swatch.addEventListener('click', () => {
-          this.colorSwatches!.forEach(s => s.classList.remove('selected'));
-          swatch.classList.add('selected');
-        });
-      });
-    }
+    // Stock ply options
+    this.onOptionClick('ply-options', '.ply-option', option => {
+      config.update({ plyStock: (option.dataset.plies || 'single') as PlyStockName });
+    });
 
     // Finish options
-    if (this.finishOptions) {
-      this.finishOptions.forEach(option => {
-        option.addEventListener('click', () => {
-          this.finishOptions!.forEach(opt => opt.classList.remove('selected'));
-          option.classList.add('selected');
-          this.updatePrice();
-        });
-      });
-    }
+    this.onOptionClick('finish-options', '.option-item', option => {
+      config.update({ lamination: (option.dataset.lamination || 'none') as LaminationName });
+    });
 
     // Add to cart button
     if (this.addToCartBtn) {
@@ -495,6 +1020,23 @@ export class TestHarness {
       if (event.key === 'Escape' && this.previewPanel?.classList.contains('fullscreen')) {
         this.toggleFullscreen();
       }
+
+      // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), Ctrl+Y; text fields keep their own undo
+      const target = event.target as HTMLElement;
+      const editingText = target.isContentEditable || target.tagName === 'TEXTAREA' ||
+        (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range');
+      if (!(event.ctrlKey || event.metaKey) || editingText) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        event.preventDefault();
+        if (key === 'y' || event.shiftKey) {
+          this.history.redo();
+        } else {
+          this.history.undo();
+        }
+      }
     });
 
     // Listen for fullscreen changes
@@ -574,6 +1116,39 @@ export class TestHarness {
     }, 100);
   }
 
+  /**
+   * Keep the page URL pointing at the current card, so the address bar can be shared
+   * Debounced: browsers throttle history updates during slider drags.
+   */
+  private scheduleLinkUpdate(): void {
+    if (this.linkUpdateTimer !== null) {
+      clearTimeout(this.linkUpdateTimer);
+    }
+    this.linkUpdateTimer = window.setTimeout(() => {
+      this.linkUpdateTimer = null;
+      window.history.replaceState(null, '', configurationLinkURL(this.config.state, window.location.href));
+    }, 300);
+  }
+
+  /**
+   * Copy a link to the current card to the clipboard (shown in a prompt if the clipboard is unavailable)
+   */
+  private copyShareLink(): void {
+    const url = configurationLinkURL(this.config.state, window.location.href);
+    const local = localAssets(this.config.state);
+    if (local.length > 0) {
+      console.warn(`Not in the link (local files): ${local.join(', ')}`);
+    }
+
+    if (!navigator.clipboard) {
+      window.prompt('Copy this link:', url);
+      return;
+    }
+    navigator.clipboard.writeText(url)
+      .then(() => console.log(`Link copied: ${url}`))
+      .catch(() => window.prompt('Copy this link:', url));
+  }
+
   /**
    * Take screenshot
    */
@@ -583,7 +1158,8 @@ export class TestHarness {
 
     const dataURL = canvas.toDataURL('image/png');
     const link = document.createElement('a');
-    link.download = `card-preview-${Date.now()}.png`;
+    // Real-scale size, as priced and cut
+    link.download = `card-preview-${this.config.state.width}x${this.config.state.height}mm-${Math.round(mmToPt(this.config.state.thickness))}pt-${Date.now()}.png`;
     link.href = dataURL;
     link.click();
   }
@@ -613,16 +1189,19 @@ export class TestHarness {
     }
   }
 
+
   /**
-   * Update card dimensions
+   * Show the stock thickness in caliper points and mm, with the grammage of the paper stock
    */
-  private updateDimensions(): void {
-    this.cardGeometry.updateDimensions(
-      this.width,
-      this.height,
-      this.thickness,
-      this.cornerRadius
-    );
+  private updateThicknessDisplay(state: CardConfigurationState): void {
+    let text = formatCaliper(state.thickness);
+    if (state.substrate === 'paper') {
+      text += ` · ≈${Math.round(caliperToGsm(state.thickness, getPaperStock(state.paperStock).bulk))} gsm`;
+    }
+    if (this.thicknessExaggeration > 1) {
+      text += ` · shown ${this.thicknessExaggeration}× thicker`;
+    }
+    this.updateValueDisplay('thickness-value', text);
   }
 
   /**
@@ -635,38 +1214,17 @@ export class TestHarness {
     }
   }
 
-  /**
-   * Update price display
-   */
-  private updatePrice(): void {
-    if (!this.priceDisplay) return;
-
-    let price = this.basePrice;
-
-    const selectedMaterial = document.querySelector('[data-step="material"] .option-item.selected');
-    if (selectedMaterial) {
-      const priceText = selectedMaterial.querySelector('.option-item-price')?.textContent || '£0.00';
-      const materialPrice = parseFloat(priceText.replace(/[£+]/g, '')) || 0;
-      price += materialPrice;
-    }
-
-    if (this.foilToggle?.classList.contains('active')) {
-      price += 10;
-    }
-    if (this.uvToggle?.classList.contains('active')) {
-      price += 5;
-    }
-    if (this.embossToggle?.classList.contains('active')) {
-      price += 15;
-    }
-
-    this.priceDisplay.textContent = `£${price.toFixed(2)}`;
-  }
-
   /**
    * Dispose of test harness
    */
   dispose(): void {
     // Cleanup handled by browser
+    if (this.linkUpdateTimer !== null) {
+      clearTimeout(this.linkUpdateTimer);
+    }
+    this.history.dispose();
+    this.binding.dispose();
+    this.artworkDrag.dispose();
+    this.printGuides.dispose();
   }
 }